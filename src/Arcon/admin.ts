@@ -0,0 +1,8 @@
+export interface Admin {
+  /** ID of the RCon admin. */
+  id: number;
+  /** IP the admin is connected from. */
+  ip: string;
+  /** Port the admin is connected from. */
+  port: number;
+}
@@ -0,0 +1,337 @@
+import EventEmitter from 'events';
+import { Arcon } from './index';
+import { ConnectingPlayer, Player } from './player';
+
+export type AutoModActionType = 'warn' | 'kick' | 'ban';
+
+interface AutoModRuleBase {
+  /** Unique name of the rule, used in audit events. */
+  name: string;
+  /** Reason sent with warnings, kicks and bans. */
+  reason: string;
+  /**
+   * Action taken on each violation of the rule by the same player. The last action repeats.
+   * Violations are forgotten once the player leaves the server.
+   * @default ['kick']
+   */
+  escalation?: AutoModActionType[];
+  /**
+   * Duration (in minutes) of bans, 0 for permanent.
+   * @default 60
+   */
+  banMinutes?: number;
+  /** GUIDs the rule does not apply to. */
+  exempt?: string[];
+  /** Whether to only emit `autoModAction` events without acting. */
+  dryRun?: boolean;
+}
+
+/** Acts when a player's ping is above `maxPing` in `updates` consecutive player lists. */
+export interface PingRule extends AutoModRuleBase {
+  type: 'ping';
+  maxPing: number;
+  /** @default 3 */
+  updates?: number;
+}
+
+/** Acts when a player stays in the lobby for longer than `maxDuration` (in ms). */
+export interface LobbyRule extends AutoModRuleBase {
+  type: 'lobby';
+  maxDuration: number;
+}
+
+/** Acts when a player's GUID is not verified within `maxDuration` (in ms) of joining. */
+export interface UnverifiedRule extends AutoModRuleBase {
+  type: 'unverified';
+  maxDuration: number;
+}
+
+/** Acts when a player's name matches a pattern. Strings match case-insensitively anywhere in the name. */
+export interface NameRule extends AutoModRuleBase {
+  type: 'name';
+  patterns: (string | RegExp)[];
+}
+
+/** Acts when a chat message matches a pattern. Strings match case-insensitively anywhere in the message. */
+export interface ChatRule extends AutoModRuleBase {
+  type: 'chat';
+  patterns: (string | RegExp)[];
+  /** Channels the rule applies to. All channels if not set. */
+  channels?: string[];
+}
+
+export type AutoModRule = PingRule | LobbyRule | UnverifiedRule | NameRule | ChatRule;
+
+export interface AutoModAction {
+  /** Name of the violated rule. */
+  rule: string;
+  action: AutoModActionType;
+  /** The player that violated the rule, unverified players are not a full `Player` yet. */
+  player: Player | ConnectingPlayer;
+  reason: string;
+  /** Number of times the player violated the rule, including this one. */
+  violations: number;
+  /** Whether the action was only reported. */
+  dryRun: boolean;
+}
+
+export interface AutoModeratorOptions {
+  rules?: AutoModRule[];
+  /** GUIDs no rule applies to. */
+  exempt?: string[];
+  /**
+   * Whether to only emit `autoModAction` events without acting, for every rule.
+   * @default false
+   */
+  dryRun?: boolean;
+}
+
+export declare interface AutoModerator {
+  on(event: 'autoModAction', listener: (action: AutoModAction) => void): this;
+  on(event: 'actionFailed', listener: (error: Error, action: AutoModAction) => void): this;
+}
+
+const matchesPattern = (pattern: string | RegExp, text: string) =>
+  typeof pattern === 'string' ? text.toLowerCase().includes(pattern.toLowerCase()) : pattern.test(text);
+
+// Player ids stay the same while a GUID is calculated and verified, unlike the GUID itself
+const ruleKey = (rule: AutoModRule, player: Player | ConnectingPlayer) => `${rule.name}:${player.id}`;
+
+/**
+ * Applies moderation rules to the players of a server, escalating from warnings to kicks and bans.
+ * Ping and time based rules are checked whenever the player list is received.
+ * @extends EventEmitter
+ * @example
+ * const autoMod = new AutoModerator(arcon, {
+ *   rules: [{ name: 'high-ping', type: 'ping', maxPing: 250, reason: 'Ping too high', escalation: ['warn', 'kick'] }],
+ * });
+ */
+export class AutoModerator extends EventEmitter {
+  private _arcon: Arcon;
+  private _rules = new Map<string, AutoModRule>();
+  private _exempt: Set<string>;
+  private _dryRun: boolean;
+
+  /** Violation counts, keyed by rule name and player id. */
+  private _violations = new Map<string, number>();
+  /** Consecutive player lists with a high ping, keyed by rule name and player id. */
+  private _highPing = new Map<string, number>();
+  /** Time each player was first seen in the current state, keyed by rule name and player id. */
+  private _since = new Map<string, number>();
+
+  /**
+   * @param arcon - The instance to moderate.
+   * @param options - The options for the moderator.
+   */
+  constructor(arcon: Arcon, { rules, exempt, dryRun }: AutoModeratorOptions = {}) {
+    super();
+
+    this._arcon = arcon;
+    this._exempt = new Set(exempt);
+    this._dryRun = dryRun ?? false;
+
+    for (const rule of rules ?? []) this.addRule(rule);
+
+    arcon.on('playerConnected', this._onPlayerConnected);
+    arcon.on('playerDisconnected', this._onPlayerDisconnected);
+    arcon.on('playerMessage', this._onPlayerMessage);
+    arcon.on('players', this._onPlayers);
+  }
+
+  /**
+   * Active rules, keyed by name.
+   */
+  public get rules(): ReadonlyMap<string, AutoModRule> {
+    return this._rules;
+  }
+
+  /**
+   * Adds a rule, replacing any rule with the same name.
+   */
+  public addRule(rule: AutoModRule) {
+    this.removeRule(rule.name);
+    this._rules.set(rule.name, rule);
+
+    return this;
+  }
+
+  /**
+   * Removes a rule and its violation history.
+   * @returns Whether the rule existed.
+   */
+  public removeRule(name: string) {
+    for (const map of [this._violations, this._highPing, this._since]) {
+      for (const key of map.keys()) {
+        if (key.startsWith(`${name}:`)) map.delete(key);
+      }
+    }
+
+    return this._rules.delete(name);
+  }
+
+  /**
+   * Forgets the violations of a player, or of every player.
+   */
+  public reset(playerId?: number) {
+    if (playerId === undefined) {
+      this._violations.clear();
+      return;
+    }
+
+    for (const key of this._violations.keys()) {
+      if (key.endsWith(`:${playerId}`)) this._violations.delete(key);
+    }
+  }
+
+  /**
+   * Stops moderating.
+   */
+  public detach() {
+    this._arcon.off('playerConnected', this._onPlayerConnected);
+    this._arcon.off('playerDisconnected', this._onPlayerDisconnected);
+    this._arcon.off('playerMessage', this._onPlayerMessage);
+    this._arcon.off('players', this._onPlayers);
+  }
+
+  private _rulesOfType<T extends AutoModRule['type']>(type: T) {
+    return [...this._rules.values()].filter((rule): rule is Extract<AutoModRule, { type: T }> => rule.type === type);
+  }
+
+  private _isExempt(rule: AutoModRule, player: Player | ConnectingPlayer) {
+    if (!player.guid) return false;
+
+    return this._exempt.has(player.guid) || (rule.exempt?.includes(player.guid) ?? false);
+  }
+
+  private _onPlayerConnected = (player: Player) => {
+    for (const rule of this._rulesOfType('name')) {
+      if (rule.patterns.some((pattern) => matchesPattern(pattern, player.name))) this._violate(rule, player);
+    }
+  };
+
+  private _onPlayerDisconnected = (player: Player) => {
+    const suffix = `:${player.id}`;
+
+    for (const map of [this._violations, this._highPing, this._since]) {
+      for (const key of map.keys()) {
+        if (key.endsWith(suffix)) map.delete(key);
+      }
+    }
+  };
+
+  private _onPlayerMessage = (player: Player, channel: string, message: string) => {
+    for (const rule of this._rulesOfType('chat')) {
+      if (rule.channels && !rule.channels.includes(channel)) continue;
+
+      if (rule.patterns.some((pattern) => matchesPattern(pattern, message))) this._violate(rule, player);
+    }
+  };
+
+  // playerUpdated is only emitted on changes, so a steady high ping is only seen in the player list
+  private _onPlayers = () => {
+    const now = Date.now();
+    const seen = new Set<string>();
+
+    const checkPing = (rule: PingRule, player: Player) => {
+      if (player.ping <= rule.maxPing) return;
+
+      const key = ruleKey(rule, player);
+      const count = (this._highPing.get(key) ?? 0) + 1;
+
+      if (count < (rule.updates ?? 3)) {
+        seen.add(key);
+        this._highPing.set(key, count);
+        return;
+      }
+
+      this._highPing.delete(key);
+      this._violate(rule, player);
+    };
+
+    const check = (rule: LobbyRule | UnverifiedRule, player: Player | ConnectingPlayer) => {
+      const key = ruleKey(rule, player);
+      const since = this._since.get(key) ?? now;
+
+      seen.add(key);
+
+      if (now - since <= rule.maxDuration) {
+        this._since.set(key, since);
+        return;
+      }
+
+      // Restart the timer, so escalation waits for another full duration
+      this._since.set(key, now);
+      this._violate(rule, player);
+    };
+
+    for (const rule of this._rulesOfType('ping')) {
+      for (const player of this._arcon.players.values()) checkPing(rule, player);
+    }
+
+    for (const rule of this._rulesOfType('lobby')) {
+      for (const player of this._arcon.players.values()) {
+        if (player.lobby) check(rule, player);
+      }
+    }
+
+    for (const rule of this._rulesOfType('unverified')) {
+      for (const player of this._arcon.connectingPlayers.values()) check(rule, player);
+
+      for (const player of this._arcon.players.values()) {
+        if (!player.verified) check(rule, player);
+      }
+    }
+
+    for (const map of [this._highPing, this._since]) {
+      for (const key of map.keys()) {
+        if (!seen.has(key)) map.delete(key);
+      }
+    }
+
+    // Players leaving before their GUID is verified do not emit playerDisconnected
+    for (const key of this._violations.keys()) {
+      const id = parseInt(key.slice(key.lastIndexOf(':') + 1));
+
+      if (!this._arcon.players.has(id) && !this._arcon.connectingPlayers.has(id)) this._violations.delete(key);
+    }
+  };
+
+  private _violate(rule: AutoModRule, player: Player | ConnectingPlayer) {
+    if (this._isExempt(rule, player)) return;
+
+    const key = ruleKey(rule, player);
+    const violations = (this._violations.get(key) ?? 0) + 1;
+    const escalation = rule.escalation ?? ['kick'];
+
+    this._violations.set(key, violations);
+
+    const action: AutoModAction = {
+      rule: rule.name,
+      action: escalation[Math.min(violations, escalation.length) - 1],
+      player,
+      reason: rule.reason,
+      violations,
+      dryRun: this._dryRun || (rule.dryRun ?? false),
+    };
+
+    this.emit('autoModAction', action);
+
+    if (action.dryRun) return;
+
+    this._act(action, rule.banMinutes ?? 60).catch((error) => this.emit('actionFailed', error, action));
+  }
+
+  private async _act({ action, player, reason }: AutoModAction, banMinutes: number) {
+    switch (action) {
+      case 'warn':
+        await this._arcon.say(player.id, reason);
+        break;
+      case 'kick':
+        await this._arcon.kick(player.id, reason);
+        break;
+      case 'ban':
+        await this._arcon.ban(player.id, banMinutes, reason);
+        break;
+    }
+  }
+}
@@ -0,0 +1,12 @@
+export interface Ban {
+  /** Index of the ban, used by `removeBan`. */
+  index: number;
+  /** Whether the ban targets a BattlEye GUID or an IP address. */
+  type: 'guid' | 'ip';
+  /** The banned GUID or IP address. */
+  id: string;
+  /** Minutes until the ban expires, `perm` for permanent bans or `expired` if awaiting removal. */
+  minutesLeft: number | 'perm' | 'expired';
+  /** Reason given for the ban. */
+  reason: string;
+}
@@ -0,0 +1,398 @@
+import EventEmitter from 'events';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { isIPv4 } from 'net';
+import ArconError from './ArconError';
+import { Ban } from './ban';
+import { isGuid } from './commands';
+import { Arcon } from './index';
+import { Player } from './player';
+import { isSteamId, steamIdToGuid } from './steam';
+
+export interface BanRecord {
+  type: 'guid' | 'ip';
+  /** Banned GUID or IP address. */
+  id: string;
+  reason: string;
+  /** Name of the admin that issued the ban. */
+  admin?: string;
+  createdAt: Date;
+  /** Time the ban expires, `null` for permanent bans. */
+  expiresAt: Date | null;
+}
+
+/**
+ * Storage of bans, keyed by GUID or IP address.
+ */
+export interface BanStore {
+  all(): Promise<BanRecord[]>;
+  get(id: string): Promise<BanRecord | undefined>;
+  /** Adds a ban, replacing any ban of the same GUID or IP address. */
+  add(ban: BanRecord): Promise<void>;
+  /** @returns Whether the ban existed. */
+  remove(id: string): Promise<boolean>;
+}
+
+/**
+ * Checks whether a ban has not expired.
+ */
+export const isBanActive = (ban: BanRecord, now = Date.now()) =>
+  ban.expiresAt === null || ban.expiresAt.getTime() > now;
+
+/**
+ * Parses the contents of a BattlEye `bans.txt` file.
+ * Each line holds a GUID or IP address, the expiry as a Unix timestamp or `-1` for permanent, and the reason.
+ * @param createdAt Creation time of the imported bans, as `bans.txt` does not store it.
+ * @throws {Error} If a line can not be parsed.
+ */
+export const parseBansFile = (content: string, createdAt = new Date()): BanRecord[] => {
+  const bans: BanRecord[] = [];
+
+  for (const [lineNumber, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+
+    if (!line || line.startsWith('//')) continue;
+
+    const match = line.match(/^(\S+)\s+(-1|\d+)(?:\s+(.*))?$/);
+
+    if (!match || (!isGuid(match[1]) && !isIPv4(match[1]))) {
+      throw new Error(`Invalid ban on line ${lineNumber + 1}: ${line}`);
+    }
+
+    const [, id, expiry, reason = ''] = match;
+
+    bans.push({
+      type: isGuid(id) ? 'guid' : 'ip',
+      id: id.toLowerCase(),
+      reason,
+      createdAt,
+      expiresAt: expiry === '-1' ? null : new Date(parseInt(expiry) * 1000),
+    });
+  }
+
+  return bans;
+};
+
+/**
+ * Formats bans in the BattlEye `bans.txt` format.
+ */
+export const serializeBansFile = (bans: BanRecord[]) =>
+  bans
+    .map(({ id, reason, expiresAt }) => {
+      const expiry = expiresAt === null ? -1 : Math.floor(expiresAt.getTime() / 1000);
+      return reason ? `${id} ${expiry} ${reason}` : `${id} ${expiry}`;
+    })
+    .map((line) => `${line}\n`)
+    .join('');
+
+/**
+ * Keeps bans in memory.
+ */
+export class MemoryBanStore implements BanStore {
+  protected _bans = new Map<string, BanRecord>();
+
+  public async all() {
+    return [...this._bans.values()];
+  }
+
+  public async get(id: string) {
+    return this._bans.get(id.toLowerCase());
+  }
+
+  public async add(ban: BanRecord) {
+    this._bans.set(ban.id.toLowerCase(), { ...ban, id: ban.id.toLowerCase() });
+  }
+
+  public async remove(id: string) {
+    return this._bans.delete(id.toLowerCase());
+  }
+}
+
+interface SerializedBanRecord extends Omit<BanRecord, 'createdAt' | 'expiresAt'> {
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+/**
+ * Keeps bans in a JSON file, which is read on first use and rewritten on every change.
+ * Changes are written one at a time, to a temporary file renamed over the previous one,
+ * so the file is never left partially written.
+ */
+export class JsonFileBanStore extends MemoryBanStore {
+  private _path: string;
+  private _loaded: Promise<void> | null = null;
+  private _saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - Path of the JSON file, created if it does not exist.
+   */
+  constructor(path: string) {
+    super();
+
+    this._path = path;
+  }
+
+  public async all() {
+    await this._load();
+    return super.all();
+  }
+
+  public async get(id: string) {
+    await this._load();
+    return super.get(id);
+  }
+
+  public async add(ban: BanRecord) {
+    await this._load();
+    await super.add(ban);
+    await this._save();
+  }
+
+  public async remove(id: string) {
+    await this._load();
+
+    const removed = await super.remove(id);
+    if (removed) await this._save();
+
+    return removed;
+  }
+
+  private _load() {
+    this._loaded ??= readFile(this._path, 'utf8')
+      .then(
+        (content) => {
+          for (const ban of JSON.parse(content) as SerializedBanRecord[]) {
+            this._bans.set(ban.id, {
+              ...ban,
+              createdAt: new Date(ban.createdAt),
+              expiresAt: ban.expiresAt === null ? null : new Date(ban.expiresAt),
+            });
+          }
+        },
+        (error: NodeJS.ErrnoException) => {
+          if (error.code !== 'ENOENT') throw error;
+        },
+      )
+      .catch((error) => {
+        // Load again with the next call, e.g. once the file is readable
+        this._loaded = null;
+        throw error;
+      });
+
+    return this._loaded;
+  }
+
+  private _save() {
+    // Concurrent writes could finish out of order and overwrite newer bans with older ones
+    const save = this._saving.then(() => this._write());
+    this._saving = save.catch(() => undefined);
+
+    return save;
+  }
+
+  private async _write() {
+    const bans: SerializedBanRecord[] = [...this._bans.values()].map((ban) => ({
+      ...ban,
+      createdAt: ban.createdAt.toISOString(),
+      expiresAt: ban.expiresAt?.toISOString() ?? null,
+    }));
+
+    const tempPath = `${this._path}.tmp`;
+
+    await writeFile(tempPath, JSON.stringify(bans, null, 2), 'utf8');
+    await rename(tempPath, this._path);
+  }
+}
+
+export interface BanDrift {
+  /** Active bans missing from the server. */
+  missing: BanRecord[];
+  /** Expired bans still on the server. */
+  expired: BanRecord[];
+  /** Bans on the server that are not in the store. */
+  unknown: Ban[];
+}
+
+export interface BanOptions {
+  /** Duration of the ban, 0 or omitted for permanent. */
+  minutes?: number;
+  reason?: string;
+  /** Name of the admin issuing the ban. */
+  admin?: string;
+}
+
+export declare interface BanManager {
+  on(event: 'enforced', listener: (player: Player, ban: BanRecord) => void): this;
+  on(event: 'enforceFailed', listener: (error: Error, player: Player) => void): this;
+}
+
+/**
+ * Keeps a server's bans in sync with a {@link BanStore}, and kicks banned players as soon as their GUID is verified.
+ * Players already on the server when attaching or reconnecting are checked as well.
+ * @extends EventEmitter
+ */
+export class BanManager extends EventEmitter {
+  private _arcon: Arcon;
+  private _store: BanStore;
+  private _checked = new WeakSet<Player>();
+
+  /**
+   * @param arcon - The server to enforce bans on.
+   * @param store - The source of truth for bans.
+   */
+  constructor(arcon: Arcon, store: BanStore) {
+    super();
+
+    this._arcon = arcon;
+    this._store = store;
+
+    arcon.on('playerConnected', this._onPlayerConnected);
+    arcon.on('players', this._onPlayers);
+
+    this._onPlayers([...arcon.players.values()]);
+  }
+
+  public get store() {
+    return this._store;
+  }
+
+  /**
+   * Stores a ban and adds it to the server.
+   * @param id BattlEye GUID, Steam64 ID or IPv4 address. Steam64 IDs are banned by their GUID.
+   */
+  public async ban(id: string, { minutes = 0, reason = '', admin }: BanOptions = {}) {
+    const guidOrIp = isSteamId(id) ? steamIdToGuid(id) : id;
+
+    if (!isGuid(guidOrIp) && !isIPv4(guidOrIp)) throw new ArconError(`Invalid GUID, Steam64 ID or IP address: ${id}`);
+
+    const createdAt = new Date();
+
+    const ban: BanRecord = {
+      type: isGuid(guidOrIp) ? 'guid' : 'ip',
+      id: guidOrIp.toLowerCase(),
+      reason,
+      admin,
+      createdAt,
+      expiresAt: minutes ? new Date(createdAt.getTime() + minutes * 60_000) : null,
+    };
+
+    await this._store.add(ban);
+    await this._arcon.addBan(ban.id, minutes, reason);
+
+    return ban;
+  }
+
+  /**
+   * Removes a ban from the store and the server.
+   * @param id BattlEye GUID, Steam64 ID or IPv4 address.
+   * @returns Whether the ban was stored.
+   */
+  public async unban(id: string) {
+    const guidOrIp = isSteamId(id) ? steamIdToGuid(id) : id;
+    const removed = await this._store.remove(guidOrIp);
+
+    await this._arcon.fetchBans();
+
+    for (const ban of [...this._arcon.findBans(guidOrIp)].reverse()) {
+      await this._arcon.removeBan(ban.index);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Compares the store with the server's ban list.
+   * @param apply Whether to add missing bans to the server and remove expired ones.
+   */
+  public async reconcile(apply = true): Promise<BanDrift> {
+    const serverBans = await this._arcon.fetchBans();
+    const stored = await this._store.all();
+    const now = Date.now();
+
+    const storedIds = new Set(stored.map((ban) => ban.id));
+    const serverIds = new Set(serverBans.map((ban) => ban.id));
+
+    const drift: BanDrift = {
+      missing: stored.filter((ban) => isBanActive(ban, now) && !serverIds.has(ban.id)),
+      expired: stored.filter((ban) => !isBanActive(ban, now) && serverIds.has(ban.id)),
+      unknown: serverBans.filter((ban) => !storedIds.has(ban.id)),
+    };
+
+    if (!apply) return drift;
+
+    const expiredIds = new Set(drift.expired.map((ban) => ban.id));
+
+    // Remove from the end, as removing a ban shifts the index of every later ban
+    const lifted = serverBans.filter((ban) => expiredIds.has(ban.id)).sort((a, b) => b.index - a.index);
+
+    for (const ban of lifted) {
+      await this._arcon.removeBan(ban.index);
+    }
+
+    for (const ban of drift.missing) {
+      const minutes = ban.expiresAt === null ? 0 : Math.max(1, Math.ceil((ban.expiresAt.getTime() - now) / 60_000));
+      await this._arcon.addBan(ban.id, minutes, ban.reason);
+    }
+
+    return drift;
+  }
+
+  /**
+   * Adds the bans of a BattlEye `bans.txt` file to the store.
+   * @returns The imported bans.
+   */
+  public async import(content: string) {
+    const bans = parseBansFile(content);
+
+    for (const ban of bans) {
+      await this._store.add(ban);
+    }
+
+    return bans;
+  }
+
+  /**
+   * Formats the active bans of the store as a BattlEye `bans.txt` file.
+   */
+  public async export() {
+    const bans = await this._store.all();
+    return serializeBansFile(bans.filter((ban) => isBanActive(ban)));
+  }
+
+  /**
+   * Stops kicking banned players.
+   */
+  public detach() {
+    this._arcon.off('playerConnected', this._onPlayerConnected);
+    this._arcon.off('players', this._onPlayers);
+  }
+
+  // Players verified in the first player list of a connection are added without a playerConnected event
+  private _onPlayers = (players: Player[]) => {
+    for (const player of players) {
+      if (player.verified) this._onPlayerConnected(player);
+    }
+  };
+
+  private _onPlayerConnected = (player: Player) => {
+    if (this._checked.has(player)) return;
+
+    this._checked.add(player);
+
+    this._enforce(player).catch((error) => {
+      // Check the player again with the next player list
+      this._checked.delete(player);
+
+      this.emit('enforceFailed', error, player);
+    });
+  };
+
+  private async _enforce(player: Player) {
+    const ban = (await this._store.get(player.guid)) ?? (await this._store.get(player.ip));
+
+    if (!ban || !isBanActive(ban)) return;
+
+    this.emit('enforced', player, ban);
+
+    await this._arcon.kick(player, ban.reason ? `Banned: ${ban.reason}` : 'Banned');
+  }
+}
@@ -0,0 +1,164 @@
+import { Player } from './player';
+
+export interface Position {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface BeLogBase {
+  /** Log type as written by BattlEye, e.g. `Script` or `PublicVariable Value`. */
+  rawType: string;
+  /** Index of the filter rule that matched. */
+  filter: number;
+  /** The unparsed text of the log. */
+  log: string;
+  /** BattlEye GUID of the player. */
+  guid: string;
+  /** The player, if connected. */
+  player?: Player;
+}
+
+/** Script code matched by `scripts.txt`, `waypointcondition.txt`, `waypointstatement.txt` or `mpeventhandler.txt`. */
+export interface CodeBeLog extends BeLogBase {
+  type: 'Script' | 'WaypointCondition' | 'WaypointStatement' | 'MPEventHandler';
+  code: string;
+}
+
+/** A vehicle or object created or deleted by a player. */
+export interface VehicleBeLog extends BeLogBase {
+  type: 'CreateVehicle' | 'DeleteVehicle';
+  className: string;
+  position?: Position;
+}
+
+/** A variable set or broadcast by a player. */
+export interface VariableBeLog extends BeLogBase {
+  type: 'SetVariable' | 'PublicVariable' | 'PublicVariableVal';
+  variable: string;
+  value: string;
+}
+
+/** A function executed remotely by a player. */
+export interface RemoteExecBeLog extends BeLogBase {
+  type: 'RemoteExec';
+  function: string;
+  args: string;
+}
+
+/** A player taking control of, attaching to or switching to another unit or object. */
+export interface TargetBeLog extends BeLogBase {
+  type: 'RemoteControl' | 'SelectPlayer' | 'AttachTo' | 'TeamSwitch';
+  target: string;
+  position?: Position;
+}
+
+/** Items added to a container by a player. */
+export interface CargoBeLog extends BeLogBase {
+  type: 'AddBackpackCargo' | 'AddWeaponCargo' | 'AddMagazineCargo';
+  className: string;
+  count?: number;
+  container?: string;
+}
+
+/** A log from a filter that has no structured payload. */
+export interface UnknownBeLog extends BeLogBase {
+  type: 'Unknown';
+}
+
+export type BeLog =
+  | CodeBeLog
+  | VehicleBeLog
+  | VariableBeLog
+  | RemoteExecBeLog
+  | TargetBeLog
+  | CargoBeLog
+  | UnknownBeLog;
+
+export type BeLogType = BeLog['type'];
+
+const positionRegex = /\[?\s*(-?[\d.e+-]+)\s*[, ]\s*(-?[\d.e+-]+)\s*[, ]\s*(-?[\d.e+-]+)\s*\]?/;
+
+const parsePosition = (text: string): Position | undefined => {
+  const match = text.match(positionRegex);
+  if (!match) return;
+
+  const [x, y, z] = match.slice(1, 4).map(Number);
+  if ([x, y, z].some((n) => Number.isNaN(n))) return;
+
+  return { x, y, z };
+};
+
+const unquote = (text: string) => text.replace(/^"(.*)"$/s, '$1');
+
+// Splits the first whitespace separated word from the rest of the log.
+const splitFirst = (log: string): [string, string] => {
+  const match = log.trim().match(/^("[^"]*"|\S+)\s*(.*)$/s);
+  return match ? [unquote(match[1]), match[2]] : ['', ''];
+};
+
+// Raw log types that differ from their normalised name.
+const typeAliases: Record<string, BeLogType> = {
+  PublicVariableValue: 'PublicVariableVal',
+};
+
+/**
+ * Creates a typed {@link BeLog} from the parts of a BattlEye log message.
+ * @param rawType The log type before ` Log:`, e.g. `Script`.
+ */
+export const createBeLog = (rawType: string, filter: number, log: string, guid: string, player?: Player): BeLog => {
+  const base: BeLogBase = { rawType, filter, log, guid, player };
+  const normalised = rawType.replace(/\s+/g, '');
+  const type = typeAliases[normalised] ?? normalised;
+
+  switch (type) {
+    case 'Script':
+    case 'WaypointCondition':
+    case 'WaypointStatement':
+    case 'MPEventHandler':
+      return { ...base, type, code: unquote(log.trim()) };
+
+    case 'CreateVehicle':
+    case 'DeleteVehicle': {
+      const [className, rest] = splitFirst(log);
+      return { ...base, type, className, position: parsePosition(rest) };
+    }
+
+    case 'SetVariable':
+    case 'PublicVariable':
+    case 'PublicVariableVal': {
+      const match = log.trim().match(/^(?:\S+\s+)??"?([A-Za-z_]\w*)"?\s*=\s*(.*)$/s);
+
+      if (match) return { ...base, type, variable: match[1], value: match[2] };
+
+      const [variable, value] = splitFirst(log);
+      return { ...base, type, variable, value };
+    }
+
+    case 'RemoteExec': {
+      const [fn, args] = splitFirst(log);
+      return { ...base, type, function: fn, args };
+    }
+
+    case 'RemoteControl':
+    case 'SelectPlayer':
+    case 'AttachTo':
+    case 'TeamSwitch': {
+      const [target, rest] = splitFirst(log);
+      return { ...base, type, target, position: parsePosition(rest) };
+    }
+
+    case 'AddBackpackCargo':
+    case 'AddWeaponCargo':
+    case 'AddMagazineCargo': {
+      const [item, container] = splitFirst(log);
+      const [className, countStr] = item.split(':');
+      const count = countStr ? parseInt(countStr) : undefined;
+
+      return { ...base, type, className, count, container: container || undefined };
+    }
+
+    default:
+      return { ...base, type: 'Unknown' };
+  }
+};
@@ -0,0 +1,358 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { Duplex } from 'stream';
+import { ConnectionState } from './client';
+import { addBanCommand, banCommand, kickCommand, sayCommand } from './commands';
+import { Arcon } from './index';
+import { WebSocketConnection } from './webSocket';
+
+/**
+ * Permissions of an API token.
+ * `read` allows reading state and streaming events, `command` allows sending any command.
+ */
+export type BridgeScope = 'read' | 'command' | 'kick' | 'ban' | 'say';
+
+export interface BridgeOptions {
+  /** API tokens, mapped to their scopes. */
+  tokens: Record<string, BridgeScope[]>;
+  /**
+   * Events streamed to WebSocket clients.
+   * @default ['connected', 'disconnected', 'reconnecting', 'playerConnected', 'playerDisconnected', 'playerUpdated', 'playerMessage', 'adminMessage', 'beLog', 'console']
+   */
+  events?: string[];
+  /**
+   * Maximum size (in bytes) of request bodies and WebSocket messages.
+   * @default 65536
+   */
+  maxBodySize?: number;
+  /**
+   * Maximum size (in bytes) of events waiting to be sent to a WebSocket client, slower clients are disconnected.
+   * @default 1048576
+   */
+  maxBufferedBytes?: number;
+}
+
+/** A failed request, sent to the client as `{ "error": message }`. */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface Route {
+  scope: BridgeScope;
+  handler: (body: Record<string, unknown>) => Promise<unknown>;
+}
+
+const defaultEvents = [
+  'connected',
+  'disconnected',
+  'reconnecting',
+  'playerConnected',
+  'playerDisconnected',
+  'playerUpdated',
+  'playerMessage',
+  'adminMessage',
+  'beLog',
+  'console',
+];
+
+// Errors are not serialised by JSON.stringify
+const serialize = (value: unknown) =>
+  JSON.stringify(value, (_key, item) => (item instanceof Error ? { name: item.name, message: item.message } : item));
+
+const stateNames: Record<ConnectionState, string> = {
+  [ConnectionState.CLOSED]: 'closed',
+  [ConnectionState.CLOSING]: 'closing',
+  [ConnectionState.CONNECTING]: 'connecting',
+  [ConnectionState.CONNECTED]: 'connected',
+};
+
+const requireString = (body: Record<string, unknown>, key: string) => {
+  const value = body[key];
+  if (typeof value !== 'string' || !value) throw new HttpError(400, `${key} must be a non-empty string.`);
+
+  return value;
+};
+
+const requirePlayerId = (body: Record<string, unknown>) => {
+  const value = body.player;
+  if (!Number.isInteger(value)) throw new HttpError(400, 'player must be a player id.');
+
+  return value as number;
+};
+
+const optional = <T>(body: Record<string, unknown>, key: string, type: 'string' | 'number') => {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== type) throw new HttpError(400, `${key} must be a ${type}.`);
+
+  return value as T;
+};
+
+// Builds a command only to validate its input, so rejected input is reported as a client error
+const validate = (build: () => string) => {
+  try {
+    build();
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+};
+
+/**
+ * Exposes an {@link Arcon} instance over HTTP, with a REST API and a WebSocket stream of events.
+ * Requests are authenticated with `Authorization: Bearer <token>`, WebSocket clients may pass `?token=` instead.
+ * @example
+ * const bridge = new ArconBridge(arcon, { tokens: { [process.env.PANEL_TOKEN]: ['read', 'kick'] } });
+ * await bridge.listen(8080);
+ */
+export class ArconBridge {
+  private _arcon: Arcon;
+  private _tokens: Map<string, Set<BridgeScope>>;
+  private _events: string[];
+  private _maxBodySize: number;
+  private _maxBufferedBytes: number | undefined;
+  private _clients = new Set<WebSocketConnection>();
+  private _listeners = new Map<string, (...args: unknown[]) => void>();
+  private _server: Server | null = null;
+
+  private _routes: Record<string, Route> = {
+    'GET /players': {
+      scope: 'read',
+      handler: async () => [...this._arcon.players.values()],
+    },
+    'GET /missions': {
+      scope: 'read',
+      handler: () => this._arcon.fetchMissions(),
+    },
+    'GET /bans': {
+      scope: 'read',
+      handler: () => this._arcon.fetchBans(),
+    },
+    'GET /status': {
+      scope: 'read',
+      handler: async () => ({ state: stateNames[this._arcon.state], health: this._arcon.health }),
+    },
+    'POST /command': {
+      scope: 'command',
+      handler: async (body) => ({ response: await this._arcon.sendCommandAsync(requireString(body, 'command')) }),
+    },
+    'POST /kick': {
+      scope: 'kick',
+      handler: async (body) => {
+        const player = requirePlayerId(body);
+        const reason = optional<string>(body, 'reason', 'string');
+
+        validate(() => kickCommand(player, reason));
+
+        return { response: await this._arcon.kick(player, reason) };
+      },
+    },
+    'POST /ban': {
+      scope: 'ban',
+      handler: async (body) => {
+        const minutes = optional<number>(body, 'minutes', 'number');
+        const reason = optional<string>(body, 'reason', 'string');
+
+        if (body.id !== undefined) {
+          const id = requireString(body, 'id');
+          validate(() => addBanCommand(id, minutes, reason));
+
+          return { response: await this._arcon.addBan(id, minutes, reason) };
+        }
+
+        const player = requirePlayerId(body);
+        validate(() => banCommand(player, minutes, reason));
+
+        return { response: await this._arcon.ban(player, minutes, reason) };
+      },
+    },
+    'POST /say': {
+      scope: 'say',
+      handler: async (body) => {
+        const player = body.player === undefined ? -1 : requirePlayerId(body);
+        const message = requireString(body, 'message');
+
+        validate(() => sayCommand(player, message));
+
+        return { response: await this._arcon.say(player, message) };
+      },
+    },
+  };
+
+  /**
+   * @param arcon - The instance to expose.
+   * @param options - The options for the bridge.
+   */
+  constructor(arcon: Arcon, { tokens, events, maxBodySize, maxBufferedBytes }: BridgeOptions) {
+    this._arcon = arcon;
+    this._tokens = new Map(Object.entries(tokens).map(([token, scopes]) => [token, new Set(scopes)]));
+    this._events = events ?? defaultEvents;
+    this._maxBodySize = maxBodySize ?? 65_536;
+    this._maxBufferedBytes = maxBufferedBytes;
+
+    for (const event of this._events) {
+      const listener = (...args: unknown[]) => this._broadcast(event, args);
+
+      this._listeners.set(event, listener);
+      (arcon as NodeJS.EventEmitter).on(event, listener);
+    }
+  }
+
+  /**
+   * Handles REST API requests.
+   * @example http.createServer(bridge.requestListener);
+   */
+  public requestListener = (req: IncomingMessage, res: ServerResponse) => {
+    this._handleRequest(req)
+      .then((result) => this._respond(res, 200, result))
+      .catch((error: Error) => {
+        const status = error instanceof HttpError ? error.status : 502;
+        this._respond(res, status, { error: error.message });
+      });
+  };
+
+  /**
+   * Handles WebSocket upgrade requests to `/events`.
+   * @example server.on('upgrade', bridge.upgradeListener);
+   */
+  public upgradeListener = (req: IncomingMessage, socket: Duplex) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (url.pathname !== '/events') throw new HttpError(404, 'Not found.');
+
+      this._authorize(req, 'read', url.searchParams.get('token'));
+    } catch (error) {
+      const { status, message } = error as HttpError;
+      socket.end(`HTTP/1.1 ${status} ${message}\r\n\r\n`);
+      return;
+    }
+
+    const client = WebSocketConnection.accept(req, socket, {
+      maxPayload: this._maxBodySize,
+      maxBufferedBytes: this._maxBufferedBytes,
+    });
+
+    if (!client) return;
+
+    this._clients.add(client);
+    client.on('close', () => this._clients.delete(client));
+
+    client.send(serialize({ event: 'state', args: [stateNames[this._arcon.state]] }));
+  };
+
+  /**
+   * Starts an HTTP server for the bridge.
+   * @returns The port the server listens on.
+   */
+  public listen(port = 0, host = '127.0.0.1') {
+    const server = createServer(this.requestListener);
+    server.on('upgrade', this.upgradeListener);
+
+    this._server = server;
+
+    return new Promise<number>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        const address = server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  /**
+   * Closes WebSocket connections, stops the server and stops listening to the instance.
+   */
+  public close() {
+    for (const [event, listener] of this._listeners) {
+      (this._arcon as NodeJS.EventEmitter).off(event, listener);
+    }
+
+    this._listeners.clear();
+
+    for (const client of this._clients) client.close(1001);
+
+    const server = this._server;
+    this._server = null;
+
+    return new Promise<void>((resolve) => {
+      if (!server) return resolve();
+
+      server.close(() => resolve());
+      server.closeAllConnections?.();
+    });
+  }
+
+  private async _handleRequest(req: IncomingMessage) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = this._routes[`${req.method} ${url.pathname.replace(/\/$/, '')}`];
+
+    if (!route) throw new HttpError(404, 'Not found.');
+
+    this._authorize(req, route.scope);
+
+    const body = req.method === 'POST' ? await this._readBody(req) : {};
+
+    return route.handler(body);
+  }
+
+  private _authorize(req: IncomingMessage, scope: BridgeScope, queryToken?: string | null) {
+    const header = req.headers.authorization?.match(/^Bearer (.+)$/);
+    const token = header?.[1] ?? queryToken;
+    const scopes = token ? this._tokens.get(token) : undefined;
+
+    if (!scopes) throw new HttpError(401, 'Unauthorized.');
+    if (!scopes.has(scope)) throw new HttpError(403, `Missing scope ${scope}.`);
+  }
+
+  private _readBody(req: IncomingMessage) {
+    return new Promise<Record<string, unknown>>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+
+        if (size > this._maxBodySize) {
+          reject(new HttpError(413, 'Request body too large.'));
+          req.destroy();
+          return;
+        }
+
+        chunks.push(chunk);
+      });
+
+      req.on('end', () => {
+        try {
+          const body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {};
+
+          if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            throw new Error();
+          }
+
+          resolve(body);
+        } catch {
+          reject(new HttpError(400, 'Request body must be a JSON object.'));
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  private _respond(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(serialize(body));
+  }
+
+  private _broadcast(event: string, args: unknown[]) {
+    if (this._clients.size === 0) return;
+
+    const message = serialize({ event, args });
+
+    for (const client of this._clients) client.send(message);
+  }
+}
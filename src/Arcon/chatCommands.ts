@@ -0,0 +1,248 @@
+import EventEmitter from 'events';
+import { Arcon } from './index';
+import { Player } from './player';
+
+export interface ChatCommandContext {
+  /** The instance the command was received on. */
+  arcon: Arcon;
+  /** The player that sent the command. */
+  player: Player;
+  /** The channel the command was sent in, e.g. `Global`. */
+  channel: string;
+  /** The name the command was called with. */
+  name: string;
+  /** Parsed arguments of the command. */
+  args: string[];
+  /** Unparsed text after the command name. */
+  rawArgs: string;
+  /** Sends a message to the player. */
+  reply(message: string): Promise<string>;
+}
+
+export interface ChatCommand {
+  /** Name of the command, without the prefix. */
+  name: string;
+  /** Alternative names of the command. */
+  aliases?: string[];
+  /** Description shown in the help text. */
+  description?: string;
+  /** Arguments shown in the help text, e.g. `<player> [reason]`. */
+  usage?: string;
+  /** Groups allowed to use the command. Everyone may use the command if not set. */
+  groups?: string[];
+  /** Time (in ms) a player must wait between uses of the command. */
+  cooldown?: number;
+  /** Channels the command may be used in. All channels are allowed if not set. */
+  channels?: string[];
+  /** Handles the command. */
+  handler: (context: ChatCommandContext) => void | Promise<void>;
+}
+
+export interface ChatCommandRouterOptions {
+  /**
+   * Prefix of every command.
+   * @default '!'
+   */
+  prefix?: string;
+  /** Permission groups, mapping group names to the GUIDs of their members. */
+  groups?: Record<string, string[]>;
+  /**
+   * Name of the generated help command, or `false` to disable it.
+   * @default 'help'
+   */
+  helpCommand?: string | false;
+}
+
+export declare interface ChatCommandRouter {
+  on(event: 'command', listener: (context: ChatCommandContext) => void): this;
+  on(event: 'commandFailed', listener: (error: Error, context: ChatCommandContext) => void): this;
+}
+
+/**
+ * Splits command arguments on whitespace, keeping quoted arguments together.
+ * @example parseArgs('kick "John Doe" spamming'); // ['kick', 'John Doe', 'spamming']
+ */
+export const parseArgs = (text: string) => {
+  const args: string[] = [];
+  const re = /"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)'|(\S+)/g;
+
+  for (const [, doubleQuoted, singleQuoted, bare] of text.matchAll(re)) {
+    const arg = doubleQuoted ?? singleQuoted;
+    args.push(arg !== undefined ? arg.replace(/\\(.)/g, '$1') : bare);
+  }
+
+  return args;
+};
+
+/**
+ * Routes prefixed chat messages from players to command handlers.
+ * Listens to `playerMessage` events, so handlers keep working across reconnects of the instance.
+ * @extends EventEmitter
+ */
+export class ChatCommandRouter extends EventEmitter {
+  private _arcon: Arcon;
+  private _prefix: string;
+  private _groups = new Map<string, Set<string>>();
+  private _commands = new Map<string, ChatCommand>();
+  private _cooldowns = new Map<string, number>();
+
+  /**
+   * @param arcon - The instance to receive commands from.
+   * @param options - The options for the router.
+   */
+  constructor(arcon: Arcon, { prefix, groups, helpCommand }: ChatCommandRouterOptions = {}) {
+    super();
+
+    this._arcon = arcon;
+    this._prefix = prefix ?? '!';
+
+    for (const [group, guids] of Object.entries(groups ?? {})) {
+      this._groups.set(group, new Set(guids));
+    }
+
+    if (helpCommand !== false) {
+      this.register({
+        name: helpCommand ?? 'help',
+        description: 'Lists available commands.',
+        handler: (context) => this._help(context),
+      });
+    }
+
+    arcon.on('playerMessage', this._onPlayerMessage);
+  }
+
+  /**
+   * Registered commands, keyed by name.
+   */
+  public get commands() {
+    return new Map([...this._commands].filter(([name, command]) => command.name === name));
+  }
+
+  /**
+   * Registers a command, replacing any command with the same name or alias.
+   */
+  public register(command: ChatCommand) {
+    for (const name of [command.name, ...(command.aliases ?? [])]) {
+      this._commands.set(name.toLowerCase(), command);
+    }
+
+    return this;
+  }
+
+  /**
+   * Removes a command and its aliases.
+   * @returns Whether the command existed.
+   */
+  public unregister(name: string) {
+    const command = this._commands.get(name.toLowerCase());
+
+    if (!command) return false;
+
+    for (const alias of [command.name, ...(command.aliases ?? [])]) {
+      this._commands.delete(alias.toLowerCase());
+    }
+
+    return true;
+  }
+
+  /**
+   * Adds a GUID to a permission group.
+   */
+  public addToGroup(group: string, guid: string) {
+    const members = this._groups.get(group) ?? new Set();
+    members.add(guid);
+
+    this._groups.set(group, members);
+  }
+
+  /**
+   * Removes a GUID from a permission group.
+   */
+  public removeFromGroup(group: string, guid: string) {
+    return this._groups.get(group)?.delete(guid) ?? false;
+  }
+
+  /**
+   * Checks whether a player may use a command.
+   */
+  public hasPermission(player: Player, command: ChatCommand) {
+    if (!command.groups) return true;
+
+    return command.groups.some((group) => this._groups.get(group)?.has(player.guid));
+  }
+
+  /**
+   * Stops routing commands.
+   */
+  public detach() {
+    this._arcon.off('playerMessage', this._onPlayerMessage);
+  }
+
+  private _onPlayerMessage = (player: Player, channel: string, message: string) => {
+    if (!message.startsWith(this._prefix)) return;
+
+    const body = message.slice(this._prefix.length);
+    const [name = ''] = body.split(/\s+/, 1);
+    const command = this._commands.get(name.toLowerCase());
+
+    if (!name || !command) return;
+
+    const rawArgs = body.slice(name.length).trim();
+
+    const context: ChatCommandContext = {
+      arcon: this._arcon,
+      player,
+      channel,
+      name,
+      args: parseArgs(rawArgs),
+      rawArgs,
+      reply: (text) => this._arcon.say(player, text),
+    };
+
+    this._run(command, context).catch((error) => this.emit('commandFailed', error, context));
+  };
+
+  private async _run(command: ChatCommand, context: ChatCommandContext) {
+    const { player, channel } = context;
+
+    if (command.channels && !command.channels.includes(channel)) return;
+
+    if (!this.hasPermission(player, command)) {
+      await context.reply(`You do not have permission to use ${this._prefix}${command.name}.`);
+      return;
+    }
+
+    if (command.cooldown) {
+      const key = `${command.name}:${player.guid}`;
+      const readyAt = this._cooldowns.get(key) ?? 0;
+
+      if (Date.now() < readyAt) {
+        const seconds = Math.ceil((readyAt - Date.now()) / 1000);
+        await context.reply(`Please wait ${seconds}s before using ${this._prefix}${command.name} again.`);
+        return;
+      }
+
+      this._cooldowns.set(key, Date.now() + command.cooldown);
+    }
+
+    this.emit('command', context);
+
+    await command.handler(context);
+  }
+
+  private async _help(context: ChatCommandContext) {
+    const lines = [...this.commands.values()]
+      .filter((command) => this.hasPermission(context.player, command))
+      .filter((command) => !command.channels || command.channels.includes(context.channel))
+      .map((command) => {
+        const usage = command.usage ? ` ${command.usage}` : '';
+        const description = command.description ? ` - ${command.description}` : '';
+
+        return `${this._prefix}${command.name}${usage}${description}`;
+      });
+
+    for (const line of lines) {
+      await context.reply(line);
+    }
+  }
+}
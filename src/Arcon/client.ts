@@ -1,7 +1,11 @@
 import { Socket, createSocket } from 'dgram';
+import { LookupAddress, promises as dns } from 'dns';
 import EventEmitter from 'events';
 import { CommandPacketPart, LoginPacket, Packet, PacketError, PacketTypes, createPacket } from './packet';
 import ArconError from './ArconError';
+import { ConnectionHealth, LatencyTracker } from './health';
+import { Logger, formatDatagram, silentLogger } from './diagnostics';
+import { RecordedDatagram, ReplayOptions, TrafficRecorder } from './recorder';
 
 export enum ConnectionState {
   CLOSED,
@@ -11,7 +15,7 @@ export enum ConnectionState {
 }
 
 export interface ClientOptions {
-  /** Host of the RCON server. */
+  /** Hostname or IPv4/IPv6 address of the RCON server. Hostnames are resolved again on every reconnect. */
   host: string;
   /** Port of the RCON server. */
   port: number;
@@ -23,12 +27,75 @@ export interface ClientOptions {
    * @default true
    */
   autoReconnect?: boolean;
+  /** Controls the delay between reconnect attempts. */
+  reconnect?: ReconnectOptions;
+  /**
+   * Time (in ms) to wait for a response to the login packet.
+   * @default 5000
+   */
+  loginTimeout?: number;
+  /**
+   * Time (in ms) without sending a command before a heartbeat is sent.
+   * @default 20000
+   */
+  heartbeatInterval?: number;
+  /**
+   * Time (in ms) without a response from the server before the connection is considered dead.
+   * @default 15000
+   */
+  connectionTimeout?: number;
+  /** Records every datagram sent and received, see {@link TrafficRecorder}. */
+  recorder?: TrafficRecorder;
+  /** Receives connection transitions, command queue operations and packet traces. */
+  logger?: Logger;
+  /**
+   * Whether to log the decoded header and a hex dump of every datagram at debug level.
+   * The password is never logged.
+   * @default false
+   */
+  tracePackets?: boolean;
+  /**
+   * Resolves the host to an address.
+   * @default dns.promises.lookup
+   */
+  lookup?: (hostname: string) => Promise<LookupAddress>;
+}
+
+export interface ReconnectOptions {
+  /**
+   * Delay (in ms) before the first reconnect attempt.
+   * @default 1000
+   */
+  initialDelay?: number;
+  /**
+   * Factor the delay is multiplied by after each failed attempt.
+   * @default 2
+   */
+  multiplier?: number;
+  /**
+   * Maximum delay (in ms) between reconnect attempts.
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Random variation applied to each delay, as a fraction of the delay.
+   * @default 0.2
+   */
+  jitter?: number;
+  /**
+   * Number of reconnect attempts before giving up.
+   * @default Infinity
+   */
+  maxAttempts?: number;
 }
 
 export declare interface BaseClient {
   on(event: 'connected', listener: () => void): this;
   on(event: 'disconnected', listener: (reason: string, abortReconnect: boolean) => void): this;
   on(event: 'error', listener: (error: Error | PacketError | ArconError) => void): this;
+  on(event: 'reconnecting', listener: (attempt: number, delay: number) => void): this;
+  on(event: 'reconnectFailed', listener: (attempts: number) => void): this;
+  on(event: 'latency', listener: (type: 'command' | 'heartbeat', latency: number) => void): this;
 }
 
 /**
@@ -41,6 +108,19 @@ export class BaseClient extends EventEmitter {
   private _port: number;
   private _password: string;
   private _autoReconnect: boolean;
+  private _reconnect: Required<ReconnectOptions>;
+  private _reconnectAttempts = 0;
+  private _loginTimeout: number;
+  private _heartbeatInterval: number;
+  private _connectionTimeout: number;
+  private _recorder: TrafficRecorder | null;
+  private _replaying = false;
+  private _tracePackets: boolean;
+  private _lookup: (hostname: string) => Promise<LookupAddress>;
+  private _address: LookupAddress | null = null;
+  private _connectAttempt = 0;
+
+  protected _logger: Logger;
 
   private _sequence = 0;
   private _sequenceCache = new Set();
@@ -48,6 +128,17 @@ export class BaseClient extends EventEmitter {
   private _lastCommandPacketSentAt: Date | null = null;
   private _lastCommandPacketReceivedAt: Date | null = null;
 
+  // Health metrics
+  private _pendingHeartbeat: { sequence: number; sentAt: number } | null = null;
+  private _commandLatency = new LatencyTracker();
+  private _heartbeatLatency = new LatencyTracker();
+  private _packetsSent = 0;
+  private _packetsReceived = 0;
+  private _packetErrors = 0;
+  private _checksumFailures = 0;
+  private _duplicateMessages = 0;
+  private _lastPacketReceivedAt: Date | null = null;
+
   // Connection state
   private _socket: Socket | null = null;
   private _state: ConnectionState = ConnectionState.CLOSED;
@@ -58,13 +149,78 @@ export class BaseClient extends EventEmitter {
   /**
    * @param options - The options for the ARCON instance.
    */
-  constructor({ host, port, password, autoReconnect }: ClientOptions) {
+  constructor({
+    host,
+    port,
+    password,
+    autoReconnect,
+    reconnect,
+    loginTimeout,
+    heartbeatInterval,
+    connectionTimeout,
+    recorder,
+    logger,
+    tracePackets,
+    lookup,
+  }: ClientOptions) {
     super();
 
     this._host = host;
     this._port = port;
     this._password = password;
     this._autoReconnect = autoReconnect ?? true;
+    this._reconnect = {
+      initialDelay: reconnect?.initialDelay ?? 1000,
+      multiplier: reconnect?.multiplier ?? 2,
+      maxDelay: reconnect?.maxDelay ?? 30_000,
+      jitter: reconnect?.jitter ?? 0.2,
+      maxAttempts: reconnect?.maxAttempts ?? Infinity,
+    };
+    this._loginTimeout = loginTimeout ?? 5000;
+    this._heartbeatInterval = heartbeatInterval ?? 20_000;
+    this._connectionTimeout = connectionTimeout ?? 15_000;
+    this._recorder = recorder ?? null;
+    this._logger = logger ?? silentLogger;
+    this._tracePackets = tracePackets ?? false;
+    this._lookup = lookup ?? ((hostname) => dns.lookup(hostname));
+  }
+
+  /**
+   * The current state of the connection.
+   */
+  public get state() {
+    return this._state;
+  }
+
+  /**
+   * The address the host resolved to on the last connect.
+   */
+  public get address() {
+    return this._address;
+  }
+
+  /**
+   * Whether recorded traffic is being replayed.
+   */
+  public get replaying() {
+    return this._replaying;
+  }
+
+  /**
+   * Connection health metrics, accumulated since the client was created.
+   */
+  public get health(): ConnectionHealth {
+    return {
+      commandLatency: this._commandLatency.toJSON(),
+      heartbeatLatency: this._heartbeatLatency.toJSON(),
+      packetsSent: this._packetsSent,
+      packetsReceived: this._packetsReceived,
+      packetErrors: this._packetErrors,
+      checksumFailures: this._checksumFailures,
+      duplicateMessages: this._duplicateMessages,
+      lastPacketReceivedAt: this._lastPacketReceivedAt,
+      timeSinceLastPacket: this._lastPacketReceivedAt ? Date.now() - this._lastPacketReceivedAt.getTime() : null,
+    };
   }
 
   /**
@@ -74,26 +230,40 @@ export class BaseClient extends EventEmitter {
   public connect(): boolean {
     if (this._state !== ConnectionState.CLOSED) return false;
 
+    this._clearTimeout('reconnect');
+
     this._state = ConnectionState.CONNECTING;
 
-    this._setup();
+    this._logger.info(`Connecting to ${this._host}:${this._port}`);
+
+    const attempt = ++this._connectAttempt;
 
-    this._socket?.connect(this._port, this._host);
+    // e.g. the socket throws synchronously on an invalid port
+    this._open(attempt).catch((error: Error) => {
+      if (attempt !== this._connectAttempt || this._state !== ConnectionState.CONNECTING) return;
+
+      this._logger.error(`Could not connect to ${this._host}:${this._port}: ${error.message}`);
+      this.emit('error', new ArconError(`Could not connect to ${this._host}:${this._port}.`, { error }));
+      this.close('Could not connect.', !this._autoReconnect);
+    });
 
     return true;
   }
 
   /**
    * Closes the connection to the RCON server.
+   * Closing a connection deliberately also cancels any pending reconnect.
+   * @param abortReconnect Whether to skip reconnecting, only disabled for connections lost unexpectedly.
    * @returns Whether the connection was successfully closed.
    */
-  public close(reason?: string, abortReconnect = !this._autoReconnect): boolean {
-    // Capture state and prevent further close attempts
-    const state = this._state;
-    this._state = ConnectionState.CLOSING;
+  public close(reason?: string, abortReconnect = true): boolean {
+    if (abortReconnect) this.cancelReconnect();
 
-    // Do nothing if the connection is already in process of closing
-    if (state === ConnectionState.CLOSED || state === ConnectionState.CLOSING) return false;
+    // Do nothing if the connection is already closed or in process of closing
+    if (this._state === ConnectionState.CLOSED || this._state === ConnectionState.CLOSING) return false;
+
+    // Prevent further close attempts
+    this._state = ConnectionState.CLOSING;
 
     // Reset socket
     if (this._socket) {
@@ -106,6 +276,7 @@ export class BaseClient extends EventEmitter {
     this._sequenceCache.clear();
     this._lastCommandPacketSentAt = null;
     this._lastCommandPacketReceivedAt = null;
+    this._pendingHeartbeat = null;
 
     // Reset timeouts
     this._clearTimeout('login');
@@ -113,15 +284,65 @@ export class BaseClient extends EventEmitter {
 
     // Emit disconnected event
     this._state = ConnectionState.CLOSED;
+    this._logger.info(`Disconnected${reason ? `: ${reason}` : ''}`, { abortReconnect });
     this.emit('disconnected', reason, abortReconnect);
 
-    if (!abortReconnect) {
-      this.connect();
+    if (!abortReconnect && !this._replaying) {
+      this._scheduleReconnect();
     }
 
     return true;
   }
 
+  /**
+   * Feeds recorded datagrams through the packet handlers as if received from the server, without a socket.
+   * Outgoing datagrams are skipped, and commands sent during the replay are rejected. No heartbeats are sent and
+   * the client does not reconnect, replayed datagrams are not recorded again.
+   * The client is closed once the replay ends, with the reason `Replay finished.`
+   * @param datagrams A recording, usually from {@link readRecording}.
+   * @returns Whether the replay ran, it only runs on a closed client.
+   */
+  public async replay(datagrams: RecordedDatagram[], { speed = 1 }: ReplayOptions = {}) {
+    if (this._state !== ConnectionState.CLOSED) return false;
+
+    this._state = ConnectionState.CONNECTING;
+    this._replaying = true;
+
+    const received = datagrams.filter((datagram) => datagram.direction === 'in');
+
+    try {
+      for (const [i, datagram] of received.entries()) {
+        const delay = i > 0 ? (datagram.time - received[i - 1].time) / speed : 0;
+
+        if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+
+        // Stop if the client was closed during the replay
+        if (this.state === ConnectionState.CLOSED) break;
+
+        this._handleMessage(datagram.data);
+      }
+    } finally {
+      // There is no socket to keep the connection alive, and timers would only time out
+      this.close('Replay finished.', true);
+      this._replaying = false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Cancels a pending reconnect attempt.
+   * @returns Whether a reconnect was pending.
+   */
+  public cancelReconnect() {
+    const pending = this._timeouts.has('reconnect');
+
+    this._clearTimeout('reconnect');
+    this._reconnectAttempts = 0;
+
+    return pending;
+  }
+
   /**
    * Mark server message sequence id as handled.
    */
@@ -172,9 +393,14 @@ export class BaseClient extends EventEmitter {
   /**
    * Handles the response to a command packet.
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  protected _handleCommandPacket(_packet: Packet | CommandPacketPart) {
+  protected _handleCommandPacket(packet: Packet | CommandPacketPart) {
     this._lastCommandPacketReceivedAt = new Date();
+
+    if (this._pendingHeartbeat?.sequence === packet.sequence) {
+      this._logger.debug(`Heartbeat ${packet.sequence} acknowledged`);
+      this._recordLatency('heartbeat', Date.now() - this._pendingHeartbeat.sentAt);
+      this._pendingHeartbeat = null;
+    }
   }
 
   /**
@@ -184,17 +410,26 @@ export class BaseClient extends EventEmitter {
     this._clearTimeout('login');
 
     if (packet.data.toString('hex') === '00') {
+      this._logger.error('Login failed, invalid password');
       this.emit('error', new ArconError('Invalid password.'));
       this.close('Invalid password.', true);
       return;
     }
 
     this._state = ConnectionState.CONNECTED;
+    this._reconnectAttempts = 0;
+    this._logger.info('Logged in');
     this.emit('connected');
 
-    const interval = setInterval(() => {
-      this._heartbeat();
-    }, 1000);
+    // Replayed clients have no socket, a heartbeat would only time out and reconnect them
+    if (this._replaying) return;
+
+    const interval = setInterval(
+      () => {
+        this._heartbeat();
+      },
+      Math.min(1000, this._heartbeatInterval),
+    );
 
     this._timeouts.set('heartbeat', interval);
   }
@@ -203,9 +438,21 @@ export class BaseClient extends EventEmitter {
    * Passes a received packet to the proper handler
    */
   private _handleMessage(data: Buffer) {
+    // Replayed datagrams are already recorded
+    if (!this._replaying) this._recorder?.record('in', data);
+    if (this._tracePackets) this._logger.debug(formatDatagram('in', data));
+
     const packet = createPacket(data);
 
+    this._packetsReceived++;
+    this._lastPacketReceivedAt = new Date();
+
     if (packet instanceof PacketError) {
+      this._packetErrors++;
+      if (packet.error === 'Invalid checksum') this._checksumFailures++;
+
+      this._logger.warn(`Dropped datagram: ${packet.error}`, { data: packet.packet.toString('hex') });
+
       this.emit('error', packet);
       return;
     }
@@ -232,6 +479,9 @@ export class BaseClient extends EventEmitter {
     const response = Packet.create(PacketTypes.Message, null, packet.sequence);
 
     this._send(response.toBuffer());
+
+    // Retransmissions are acknowledged again, as the previous acknowledgement may have been lost
+    if (this.hasSeenSequenceId(packet.sequence)) this._duplicateMessages++;
   }
 
   /**
@@ -240,6 +490,8 @@ export class BaseClient extends EventEmitter {
   private _heartbeat() {
     const sendHeartbeat = () => {
       const packet = Packet.create(PacketTypes.Command, null, this._getSequence());
+      this._pendingHeartbeat = { sequence: packet.sequence, sentAt: Date.now() };
+      this._logger.debug(`Sending heartbeat ${packet.sequence}`);
       this._send(packet.toBuffer());
     };
 
@@ -253,28 +505,78 @@ export class BaseClient extends EventEmitter {
     const now = new Date();
     const lastCommandDiff = now.getTime() - this._lastCommandPacketSentAt.getTime();
 
-    // If a command takes longer than 15 seconds to respond, connection is dead.
+    // If a command takes longer than the connection timeout to respond, connection is dead.
     if (this._lastCommandPacketReceivedAt) {
       const lastCommandReceivedDiff =
         this._lastCommandPacketSentAt.getTime() - this._lastCommandPacketReceivedAt.getTime();
 
-      if (lastCommandReceivedDiff > 15_000) {
-        this.close('Connection timed out.');
+      if (lastCommandReceivedDiff > this._connectionTimeout) {
+        this._logger.warn(`No response for ${lastCommandReceivedDiff}ms, connection timed out`);
+        this.close('Connection timed out.', !this._autoReconnect);
         return;
       }
     }
 
-    // Send a heartbeat every 20 seconds.
-    if (lastCommandDiff > 20_000) {
+    // Send a heartbeat if no command has been sent within the heartbeat interval.
+    if (lastCommandDiff > this._heartbeatInterval) {
       sendHeartbeat();
     }
   }
 
+  /**
+   * Records the round-trip time of a command or heartbeat.
+   */
+  protected _recordLatency(type: 'command' | 'heartbeat', latency: number) {
+    if (type === 'command') this._commandLatency.record(latency);
+    else this._heartbeatLatency.record(latency);
+
+    this.emit('latency', type, latency);
+  }
+
+  /**
+   * Schedules the next reconnect attempt, backing off exponentially after each failure.
+   */
+  private _scheduleReconnect() {
+    const { initialDelay, multiplier, maxDelay, jitter, maxAttempts } = this._reconnect;
+
+    const attempt = ++this._reconnectAttempts;
+
+    if (attempt > maxAttempts) {
+      this._reconnectAttempts = 0;
+      this._reconnectFailed(attempt - 1);
+      return;
+    }
+
+    const baseDelay = Math.min(maxDelay, initialDelay * multiplier ** (attempt - 1));
+    const delay = Math.round(baseDelay * (1 + jitter * (Math.random() * 2 - 1)));
+
+    this._logger.info(`Reconnecting in ${delay}ms (attempt ${attempt})`);
+    this.emit('reconnecting', attempt, delay);
+
+    const timeout = setTimeout(() => {
+      this._timeouts.delete('reconnect');
+      this.connect();
+    }, delay);
+
+    this._timeouts.set('reconnect', timeout);
+  }
+
+  /**
+   * Gives up reconnecting after `maxAttempts` failed attempts.
+   */
+  protected _reconnectFailed(attempts: number) {
+    this._logger.error(`Giving up after ${attempts} reconnect attempts`);
+    this.emit('reconnectFailed', attempts);
+  }
+
   /**
    * Wrapper for sending a command to the RCON server.
    */
   protected _send(data: Buffer) {
     if (this._socket) {
+      this._packetsSent++;
+      this._recorder?.record('out', data);
+      if (this._tracePackets) this._logger.debug(formatDatagram('out', data));
       this._socket.send(data);
     }
   }
@@ -286,26 +588,57 @@ export class BaseClient extends EventEmitter {
     const packet = LoginPacket.create(this._password);
 
     const timeout = setTimeout(() => {
-      this.close('Login timed out.');
-    }, 5000);
+      this._logger.warn(`No response to login after ${this._loginTimeout}ms`);
+      this.close('Login timed out.', !this._autoReconnect);
+    }, this._loginTimeout);
 
     this._timeouts.set('login', timeout);
 
+    this._logger.debug('Sending login');
     this._send(packet.toBuffer());
   }
 
+  /**
+   * Resolves the host and connects the socket, using IPv6 if the host resolves to an IPv6 address.
+   * @param attempt Number of the connect call, stale lookups are ignored.
+   */
+  private async _open(attempt: number) {
+    let address: LookupAddress;
+
+    try {
+      address = await this._lookup(this._host);
+    } catch (error) {
+      if (attempt !== this._connectAttempt || this._state !== ConnectionState.CONNECTING) return;
+
+      this._logger.error(`Could not resolve ${this._host}: ${(error as Error).message}`);
+      this.emit('error', new ArconError(`Could not resolve host ${this._host}.`, { host: this._host, error }));
+      this.close('Could not resolve host.', !this._autoReconnect);
+      return;
+    }
+
+    // Closed or connected again while resolving
+    if (attempt !== this._connectAttempt || this._state !== ConnectionState.CONNECTING) return;
+
+    if (address.address !== this._host) this._logger.debug(`Resolved ${this._host} to ${address.address}`);
+
+    this._address = address;
+    this._setup(address.family === 6 ? 'udp6' : 'udp4');
+    this._socket?.connect(this._port, address.address);
+  }
+
   /**
    * Sets up the socket event listeners.
    */
-  private _setup() {
-    this._socket = createSocket('udp4');
+  private _setup(type: 'udp4' | 'udp6') {
+    this._socket = createSocket(type);
 
     this._socket.once('connect', () => this._sendLogin());
     this._socket.on('message', (data) => this._handleMessage(data));
 
     this._socket.on('error', (error) => {
+      this._logger.error(`Socket error: ${error.message}`);
       this.emit('error', error);
-      this.close('Socket error.');
+      this.close('Socket error.', !this._autoReconnect);
     });
   }
 }
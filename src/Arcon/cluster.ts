@@ -0,0 +1,284 @@
+import EventEmitter from 'events';
+import { Admin } from './admin';
+import { Ban } from './ban';
+import { ConnectionState } from './client';
+import { CommandDropReason } from './commandQueue';
+import { BeLog } from './beLog';
+import { Arcon, ArconOptions } from './index';
+import { Player, PlayerResync } from './player';
+import { Identity } from './steam';
+
+export interface ClusterServerOptions extends ArconOptions {
+  /** Unique identifier of the server within the cluster. */
+  id: string;
+}
+
+export interface ServerHealth {
+  /** Identifier of the server. */
+  id: string;
+  /** Current connection state. */
+  state: ConnectionState;
+  /** When the server last connected. */
+  connectedAt: Date | null;
+  /** When the server last disconnected. */
+  disconnectedAt: Date | null;
+  /** Reason given for the last disconnect. */
+  lastDisconnectReason: string | null;
+  /** Number of times the server has disconnected. */
+  disconnects: number;
+  /** Number of errors emitted by the server. */
+  errors: number;
+  /** Number of players on the server. */
+  players: number;
+}
+
+// Events of `Arcon` that are re-emitted by the cluster, tagged with the server id.
+const forwardedEvents = [
+  'connected',
+  'disconnected',
+  'reconnecting',
+  'reconnectFailed',
+  'latency',
+  'error',
+  'beError',
+  'players',
+  'missions',
+  'bans',
+  'admins',
+  'adminConnected',
+  'adminDisconnected',
+  'playerConnected',
+  'playerDisconnected',
+  'playerUpdated',
+  'resynced',
+  'beLog',
+  'playerMessage',
+  'adminMessage',
+  'commandDropped',
+  'console',
+] as const;
+
+export declare interface ArconCluster {
+  on(event: 'connected', listener: (serverId: string) => void): this;
+  on(event: 'disconnected', listener: (serverId: string, reason: string, abortReconnect: boolean) => void): this;
+  on(event: 'reconnecting', listener: (serverId: string, attempt: number, delay: number) => void): this;
+  on(event: 'reconnectFailed', listener: (serverId: string, attempts: number) => void): this;
+  on(event: 'latency', listener: (serverId: string, type: 'command' | 'heartbeat', latency: number) => void): this;
+  on(event: 'error', listener: (error: Error, serverId: string) => void): this;
+  on(event: 'beError', listener: (serverId: string, error: Error) => void): this;
+  on(event: 'players', listener: (serverId: string, players: Player[]) => void): this;
+  on(event: 'missions', listener: (serverId: string, missions: string[]) => void): this;
+  on(event: 'bans', listener: (serverId: string, bans: Ban[]) => void): this;
+  on(event: 'admins', listener: (serverId: string, admins: Admin[]) => void): this;
+  on(event: 'adminConnected', listener: (serverId: string, admin: Admin) => void): this;
+  on(event: 'adminDisconnected', listener: (serverId: string, admin: Admin) => void): this;
+  on(event: 'playerConnected', listener: (serverId: string, player: Player, identity?: Identity) => void): this;
+  on(event: 'playerDisconnected', listener: (serverId: string, player: Player, reason: string) => void): this;
+  on(
+    event: 'playerUpdated',
+    listener: (serverId: string, player: Player, changes: [boolean, boolean, boolean]) => void,
+  ): this;
+  on(event: 'resynced', listener: (serverId: string, resync: PlayerResync) => void): this;
+  on(event: 'beLog', listener: (serverId: string, log: BeLog) => void): this;
+  on(
+    event: 'playerMessage',
+    listener: (serverId: string, player: Player, channel: string, message: string) => void,
+  ): this;
+  on(
+    event: 'adminMessage',
+    listener: (serverId: string, id: number, channel: string, message: string, admin: Admin | undefined) => void,
+  ): this;
+  on(event: 'commandDropped', listener: (serverId: string, command: string, reason: CommandDropReason) => void): this;
+  on(event: 'console', listener: (serverId: string, data: string) => void): this;
+}
+
+/**
+ * Manages connections to multiple RCON servers.
+ * Every event of the underlying {@link Arcon} instances is re-emitted with the server id as the first argument.
+ * @extends EventEmitter
+ */
+export class ArconCluster extends EventEmitter {
+  private _servers = new Map<string, Arcon>();
+  private _health = new Map<string, ServerHealth>();
+  private _listeners = new Map<string, [string, (...args: unknown[]) => void][]>();
+
+  /**
+   * @param servers - The servers in the cluster.
+   */
+  constructor(servers: ClusterServerOptions[] = []) {
+    super();
+
+    for (const server of servers) {
+      this.addServer(server);
+    }
+  }
+
+  /**
+   * The servers in the cluster, keyed by server id.
+   */
+  public get servers() {
+    return this._servers;
+  }
+
+  /**
+   * Adds a server to the cluster. The server is not connected automatically.
+   * @returns The `Arcon` instance of the server.
+   */
+  public addServer({ id, ...options }: ClusterServerOptions) {
+    if (this._servers.has(id)) {
+      throw new Error(`Server ${id} already exists in cluster.`);
+    }
+
+    const arcon = new Arcon(options);
+
+    const health: ServerHealth = {
+      id,
+      state: arcon.state,
+      connectedAt: null,
+      disconnectedAt: null,
+      lastDisconnectReason: null,
+      disconnects: 0,
+      errors: 0,
+      players: 0,
+    };
+
+    arcon.on('connected', () => {
+      health.connectedAt = new Date();
+    });
+
+    arcon.on('disconnected', (reason) => {
+      health.disconnectedAt = new Date();
+      health.lastDisconnectReason = reason ?? null;
+      health.disconnects++;
+    });
+
+    arcon.on('error', () => {
+      health.errors++;
+    });
+
+    const listeners = forwardedEvents.map((event) => {
+      // Error listeners expect the error first, like those of any other emitter
+      const listener =
+        event === 'error'
+          ? (error: unknown) => this.emit(event, error, id)
+          : (...args: unknown[]) => this.emit(event, id, ...args);
+      (arcon as EventEmitter).on(event, listener);
+      return [event, listener] as [string, (...args: unknown[]) => void];
+    });
+
+    this._servers.set(id, arcon);
+    this._health.set(id, health);
+    this._listeners.set(id, listeners);
+
+    return arcon;
+  }
+
+  /**
+   * Closes the connection to a server and removes it from the cluster.
+   * @returns Whether the server was part of the cluster.
+   */
+  public removeServer(id: string) {
+    const arcon = this._servers.get(id);
+
+    if (!arcon) return false;
+
+    arcon.close('Removed from cluster.', true);
+
+    for (const [event, listener] of this._listeners.get(id) ?? []) {
+      arcon.off(event, listener);
+    }
+
+    this._servers.delete(id);
+    this._health.delete(id);
+    this._listeners.delete(id);
+
+    return true;
+  }
+
+  /**
+   * Gets the `Arcon` instance of a server.
+   */
+  public get(id: string) {
+    return this._servers.get(id);
+  }
+
+  /**
+   * Opens connections to all servers in the cluster.
+   */
+  public connect() {
+    for (const arcon of this._servers.values()) {
+      arcon.connect();
+    }
+  }
+
+  /**
+   * Closes connections to all servers in the cluster.
+   */
+  public close(reason?: string) {
+    for (const arcon of this._servers.values()) {
+      arcon.close(reason, true);
+    }
+  }
+
+  /**
+   * Finds the server a player with the given GUID is connected to.
+   */
+  public findPlayerByGuid(guid: string): { serverId: string; player: Player } | undefined {
+    for (const [serverId, arcon] of this._servers) {
+      for (const player of arcon.players.values()) {
+        if (player.guid === guid) return { serverId, player };
+      }
+    }
+  }
+
+  /**
+   * Finds players across all servers matching a predicate.
+   */
+  public findPlayers(predicate: (player: Player, serverId: string) => boolean) {
+    const players: { serverId: string; player: Player }[] = [];
+
+    for (const [serverId, arcon] of this._servers) {
+      for (const player of arcon.players.values()) {
+        if (predicate(player, serverId)) players.push({ serverId, player });
+      }
+    }
+
+    return players;
+  }
+
+  /**
+   * Sends a command to every server, or a subset of servers.
+   * @param command Formatted command data.
+   * @param serverIds The servers to send the command to, defaults to all servers.
+   * @returns The result of the command for each server.
+   * @example await cluster.broadcast('say -1 Restarting in 5 minutes');
+   */
+  public async broadcast(command: string, serverIds?: string[]) {
+    const ids = serverIds ?? [...this._servers.keys()];
+
+    const results = await Promise.allSettled(
+      ids.map((id) => {
+        const arcon = this._servers.get(id);
+        if (!arcon) return Promise.reject(new Error(`Server ${id} does not exist in cluster.`));
+        return arcon.sendCommandAsync(command);
+      }),
+    );
+
+    return new Map(ids.map((id, i) => [id, results[i]]));
+  }
+
+  /**
+   * Reports the connection health of every server in the cluster.
+   */
+  public health(): ServerHealth[] {
+    return [...this._health.values()].map((health) => {
+      const arcon = this._servers.get(health.id);
+
+      return {
+        ...health,
+        state: arcon?.state ?? ConnectionState.CLOSED,
+        players: arcon?.players.size ?? 0,
+      };
+    });
+  }
+}
@@ -0,0 +1,236 @@
+import ArconError from './ArconError';
+
+export enum CommandPriority {
+  LOW,
+  NORMAL,
+  HIGH,
+}
+
+export interface CommandOptions {
+  /**
+   * Commands with a higher priority are sent before commands with a lower priority.
+   * @default CommandPriority.NORMAL
+   */
+  priority?: CommandPriority;
+  /**
+   * Whether to reuse an identical command that is already queued instead of queuing it again.
+   * A reused command that has not been sent yet is raised to the higher of both priorities.
+   * @default false
+   */
+  dedupe?: boolean;
+  /** Time (in ms) the command may wait in the queue before it is dropped. */
+  expiresIn?: number;
+}
+
+export type CommandDropReason = 'queueFull' | 'expired' | 'timeout';
+
+export interface CommandHandle {
+  /** The queued command. */
+  readonly command: string;
+  /**
+   * Resolves with the response sent by the server.
+   * Rejects with an {@link ArconError} if the command is dropped, cancelled or the connection closes.
+   */
+  readonly response: Promise<string>;
+  /**
+   * Removes the command from the queue.
+   * @returns Whether the command was cancelled, commands already sent can not be cancelled.
+   */
+  cancel(): boolean;
+}
+
+export interface QueuedCommand {
+  command: string;
+  priority: CommandPriority;
+  queuedAt: number;
+  expiresAt: number | null;
+  /** Whether the caller handles the response, suppressing unsupported response errors. */
+  awaited: boolean;
+  sentAt?: number;
+  handle: CommandHandle;
+  resolve: (response: string) => void;
+  reject: (error: ArconError) => void;
+}
+
+/**
+ * Priority queue of commands waiting to be sent to the server.
+ * The command at the head of the queue is the one being sent or waiting for a response.
+ */
+export class CommandQueue {
+  private _items: QueuedCommand[] = [];
+  private _maxLength: number;
+  private _onDrop: (queued: QueuedCommand, reason: CommandDropReason) => void;
+
+  /** Whether the command at the head of the queue has been sent. */
+  inFlight = false;
+
+  constructor(maxLength: number, onDrop: (queued: QueuedCommand, reason: CommandDropReason) => void) {
+    this._maxLength = maxLength;
+    this._onDrop = onDrop;
+  }
+
+  get length() {
+    return this._items.length;
+  }
+
+  get head(): QueuedCommand | undefined {
+    return this._items[0];
+  }
+
+  /**
+   * Checks whether an identical command is queued.
+   */
+  has(command: string) {
+    return this._items.some((item) => item.command === command);
+  }
+
+  /**
+   * Adds a command to the queue, behind every command of the same or higher priority.
+   */
+  push(command: string, { priority = CommandPriority.NORMAL, dedupe, expiresIn }: CommandOptions, awaited: boolean) {
+    if (dedupe) {
+      const existing = this._items.find((item) => item.command === command);
+
+      if (existing) {
+        existing.awaited ||= awaited;
+
+        if (priority > existing.priority && !(this.inFlight && this._items[0] === existing)) {
+          this._remove(existing);
+          existing.priority = priority;
+          this._insert(existing);
+        }
+
+        return existing.handle;
+      }
+    }
+
+    let resolve!: (response: string) => void;
+    let reject!: (error: ArconError) => void;
+
+    const response = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    // Prevent unhandled rejections for commands nobody waits on
+    response.catch(() => {});
+
+    const queued: QueuedCommand = {
+      command,
+      priority,
+      queuedAt: Date.now(),
+      expiresAt: expiresIn !== undefined ? Date.now() + expiresIn : null,
+      awaited,
+      handle: { command, response, cancel: () => this._cancel(queued) },
+      resolve,
+      reject,
+    };
+
+    if (this._items.length >= this._maxLength && !this._evictFor(queued)) {
+      this._drop(queued, 'queueFull');
+      return queued.handle;
+    }
+
+    this._insert(queued);
+
+    return queued.handle;
+  }
+
+  /**
+   * Removes the command at the head of the queue.
+   */
+  shift() {
+    this.inFlight = false;
+    return this._items.shift();
+  }
+
+  /**
+   * Drops the command at the head of the queue.
+   */
+  dropHead(reason: CommandDropReason) {
+    const queued = this.shift();
+    if (queued) this._drop(queued, reason);
+  }
+
+  /**
+   * Drops every queued command that has expired before being sent.
+   */
+  dropExpired() {
+    const now = Date.now();
+    const start = this.inFlight ? 1 : 0;
+
+    const expired = this._items.filter((item, i) => i >= start && item.expiresAt !== null && item.expiresAt <= now);
+
+    for (const queued of expired) {
+      this._remove(queued);
+      this._drop(queued, 'expired');
+    }
+  }
+
+  /**
+   * Removes every command from the queue, rejecting them with the given error.
+   */
+  clear(error: (queued: QueuedCommand) => ArconError) {
+    const items = this._items;
+
+    this._items = [];
+    this.inFlight = false;
+
+    for (const queued of items) {
+      queued.reject(error(queued));
+    }
+  }
+
+  private _cancel(queued: QueuedCommand) {
+    if (this.inFlight && this._items[0] === queued) return false;
+    if (!this._remove(queued)) return false;
+
+    queued.reject(new ArconError('Command cancelled.', { command: queued.command }));
+    return true;
+  }
+
+  // Makes room for a command by removing the newest command with a lower priority.
+  private _evictFor(queued: QueuedCommand) {
+    const start = this.inFlight ? 1 : 0;
+
+    for (let i = this._items.length - 1; i >= start; i--) {
+      const item = this._items[i];
+
+      if (item.priority < queued.priority) {
+        this._items.splice(i, 1);
+        this._drop(item, 'queueFull');
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Inserts a command behind every command of the same or higher priority, keeping the in-flight command first.
+  private _insert(queued: QueuedCommand) {
+    const start = this.inFlight ? 1 : 0;
+    const index = this._items.findIndex((item, i) => i >= start && item.priority < queued.priority);
+
+    if (index === -1) this._items.push(queued);
+    else this._items.splice(index, 0, queued);
+  }
+
+  private _remove(queued: QueuedCommand) {
+    const index = this._items.indexOf(queued);
+    if (index === -1) return false;
+
+    this._items.splice(index, 1);
+    return true;
+  }
+
+  private _drop(queued: QueuedCommand, reason: CommandDropReason) {
+    const messages: Record<CommandDropReason, string> = {
+      queueFull: 'Command queue is full.',
+      expired: 'Command expired before it was sent.',
+      timeout: 'Command timed out.',
+    };
+
+    queued.reject(new ArconError(messages[reason], { command: queued.command }));
+    this._onDrop(queued, reason);
+  }
+}
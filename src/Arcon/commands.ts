@@ -0,0 +1,133 @@
+import { isIPv4 } from 'net';
+import ArconError from './ArconError';
+import { Player } from './player';
+import { isSteamId, steamIdToGuid } from './steam';
+
+/** A player instance or the id of a player on the server. */
+export type PlayerTarget = Player | number;
+
+const guidRegex = /^[a-f0-9]{32}$/i;
+
+// Characters that would terminate or corrupt a command line.
+// eslint-disable-next-line no-control-regex
+const controlCharRegex = /[\x00-\x1f\x7f]/;
+
+const getPlayerId = (target: PlayerTarget) => {
+  const id = target instanceof Player ? target.id : target;
+
+  if (!Number.isInteger(id) || id < 0) {
+    throw new ArconError(`Invalid player id: ${id}`);
+  }
+
+  return id;
+};
+
+const validateText = (text: string, name: string) => {
+  if (controlCharRegex.test(text)) {
+    throw new ArconError(`${name} must not contain control characters or line breaks.`, { [name]: text });
+  }
+
+  return text.trim();
+};
+
+const validateMinutes = (minutes: number) => {
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new ArconError(`Invalid ban duration: ${minutes}. Must be a whole number of minutes, 0 for permanent.`);
+  }
+
+  return minutes;
+};
+
+/**
+ * Checks whether a string is a valid BattlEye GUID.
+ */
+export const isGuid = (value: string) => guidRegex.test(value);
+
+/**
+ * Formats a `kick` command.
+ * @param target The player to kick.
+ * @param reason Reason shown to the player.
+ */
+export const kickCommand = (target: PlayerTarget, reason?: string) => {
+  const id = getPlayerId(target);
+  const text = reason ? validateText(reason, 'reason') : '';
+
+  return text ? `kick ${id} ${text}` : `kick ${id}`;
+};
+
+/**
+ * Formats a `ban` command for a connected player.
+ * @param target The player to ban.
+ * @param minutes Duration of the ban, 0 for permanent.
+ * @param reason Reason shown to the player.
+ */
+export const banCommand = (target: PlayerTarget, minutes = 0, reason?: string) => {
+  const id = getPlayerId(target);
+  const duration = validateMinutes(minutes);
+  const text = reason ? validateText(reason, 'reason') : '';
+
+  return text ? `ban ${id} ${duration} ${text}` : `ban ${id} ${duration}`;
+};
+
+/**
+ * Formats an `addBan` command for a GUID or IP that may not be connected.
+ * @param id BattlEye GUID, Steam64 ID or IPv4 address to ban. Steam64 IDs are banned by their GUID.
+ * GUIDs are sent in lowercase, as listed by the server.
+ * @param minutes Duration of the ban, 0 for permanent.
+ * @param reason Reason for the ban.
+ */
+export const addBanCommand = (id: string, minutes = 0, reason?: string) => {
+  const guidOrIp = isSteamId(id) ? steamIdToGuid(id) : id.toLowerCase();
+
+  if (!isGuid(guidOrIp) && !isIPv4(guidOrIp)) {
+    throw new ArconError(`Invalid GUID, Steam64 ID or IP address: ${id}`);
+  }
+
+  const duration = validateMinutes(minutes);
+  const text = reason ? validateText(reason, 'reason') : '';
+
+  return text ? `addBan ${guidOrIp} ${duration} ${text}` : `addBan ${guidOrIp} ${duration}`;
+};
+
+/**
+ * Formats a `removeBan` command.
+ * @param index Index of the ban as listed by the `bans` command.
+ */
+export const removeBanCommand = (index: number) => {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new ArconError(`Invalid ban index: ${index}`);
+  }
+
+  return `removeBan ${index}`;
+};
+
+/**
+ * Formats a `say` command.
+ * @param target The player to message, or -1 for everyone.
+ * @param message Message to send.
+ */
+export const sayCommand = (target: PlayerTarget | -1, message: string) => {
+  const id = target === -1 ? -1 : getPlayerId(target);
+  const text = validateText(message, 'message');
+
+  if (!text) throw new ArconError('Message must not be empty.');
+
+  return `say ${id} ${text}`;
+};
+
+/**
+ * Formats a `#mission` command.
+ * @param mission Name of the mission, without the `.pbo` extension.
+ * @param difficulty Optional difficulty to start the mission on.
+ */
+export const missionCommand = (mission: string, difficulty?: string) => {
+  if (!mission || /\s/.test(mission) || controlCharRegex.test(mission)) {
+    throw new ArconError(`Invalid mission name: ${mission}`);
+  }
+
+  if (difficulty !== undefined && !/^[a-z]+$/i.test(difficulty)) {
+    throw new ArconError(`Invalid mission difficulty: ${difficulty}`);
+  }
+
+  return difficulty ? `#mission ${mission} ${difficulty}` : `#mission ${mission}`;
+};
@@ -0,0 +1,94 @@
+import { PacketTypes } from './packet';
+import { DatagramDirection } from './recorder';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Receives diagnostic messages from a client. Compatible with `console` and most logging libraries.
+ */
+export interface Logger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+const levels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const noop = () => undefined;
+
+/** Discards every message, used when no logger is configured. */
+export const silentLogger: Logger = { debug: noop, info: noop, warn: noop, error: noop };
+
+/**
+ * Creates a logger writing to `console`, ignoring messages below a level.
+ * @param level Minimum level to write.
+ * @param prefix Prepended to every message, e.g. the name of a server.
+ */
+export const createConsoleLogger = (level: LogLevel = 'info', prefix = '[arcon]'): Logger => {
+  const write = (messageLevel: LogLevel) => {
+    if (levels.indexOf(messageLevel) < levels.indexOf(level)) return noop;
+
+    return (message: string, meta?: Record<string, unknown>) => {
+      const args: unknown[] = [`${prefix} ${message}`];
+      if (meta) args.push(meta);
+
+      console[messageLevel](...args);
+    };
+  };
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+};
+
+/**
+ * Formats a buffer as offset, hex bytes and printable ASCII, 16 bytes per line.
+ */
+export const hexDump = (data: Buffer) => {
+  const lines: string[] = [];
+
+  for (let offset = 0; offset < data.length; offset += 16) {
+    const row = data.subarray(offset, offset + 16);
+    const hex = [...row].map((byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = [...row].map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Decodes the header of a raw datagram for tracing.
+ * The payload of outgoing login packets, the password, is never included.
+ * @returns A summary line followed by a hex dump of the payload.
+ */
+export const formatDatagram = (direction: DatagramDirection, data: Buffer) => {
+  const arrow = direction === 'in' ? '<-' : '->';
+
+  // BE|CRC32|0xff|TYPE
+  if (data.length < 8 || data.subarray(0, 2).toString() !== 'BE') {
+    return `${arrow} invalid datagram (${data.length} bytes)\n${hexDump(data)}`;
+  }
+
+  const type = data[7];
+  const typeName = PacketTypes[type] ?? `unknown type ${type}`;
+
+  if (type === PacketTypes.Login) {
+    if (direction === 'out') return `${arrow} Login (password redacted)`;
+
+    return `${arrow} Login ${data[8] === 0x01 ? 'succeeded' : 'failed'}`;
+  }
+
+  const sequence = data[8];
+  let payload = data.subarray(9);
+  let summary = `${arrow} ${typeName} seq=${sequence}`;
+
+  if (type === PacketTypes.Command && direction === 'in' && payload[0] === 0x00 && payload.length >= 3) {
+    summary += ` part=${payload[2] + 1}/${payload[1]}`;
+    payload = payload.subarray(3);
+  }
+
+  summary += ` (${payload.length} bytes)`;
+
+  return payload.length ? `${summary}\n${hexDump(payload)}` : summary;
+};
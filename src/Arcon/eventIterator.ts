@@ -0,0 +1,157 @@
+import ArconError from './ArconError';
+
+/**
+ * What happens to an event received while the buffer of an iterator is full.
+ * `error` ends the iterator with an {@link ArconError} once the buffered events are consumed.
+ */
+export type OverflowPolicy = 'dropOldest' | 'dropNewest' | 'error';
+
+export interface EventIteratorOptions {
+  /**
+   * Maximum number of events buffered while the consumer is busy.
+   * @default 1000
+   */
+  bufferSize?: number;
+  /** @default 'dropOldest' */
+  overflow?: OverflowPolicy;
+}
+
+export interface WaitForOptions<T extends unknown[]> {
+  /** Only resolve for events whose arguments match. */
+  predicate?: (...args: T) => boolean;
+  /** Time (in ms) to wait before rejecting. */
+  timeout?: number;
+}
+
+/** An event emitted by an `Arcon` instance, as read from its event stream. */
+export interface EmittedEvent {
+  event: string;
+  args: unknown[];
+  time: Date;
+}
+
+/**
+ * Async iterator over emitted values with a bounded buffer.
+ * Created by `Arcon.iterate`, ends when the connection is closed with `abortReconnect` or reconnecting fails.
+ */
+export class EventIterator<T> implements AsyncIterableIterator<T> {
+  private _buffer: T[] = [];
+  private _bufferSize: number;
+  private _overflow: OverflowPolicy;
+  private _pending: { resolve: (result: IteratorResult<T>) => void; reject: (error: Error) => void } | null = null;
+  private _error: Error | null = null;
+  private _done = false;
+  private _dropped = 0;
+  private _onEnd: () => void;
+
+  /**
+   * @param options - Buffering of the iterator.
+   * @param onEnd - Called once when the iterator ends, to stop feeding it.
+   */
+  constructor({ bufferSize, overflow }: EventIteratorOptions = {}, onEnd: () => void = () => undefined) {
+    this._bufferSize = Math.max(1, bufferSize ?? 1000);
+    this._overflow = overflow ?? 'dropOldest';
+    this._onEnd = onEnd;
+  }
+
+  /**
+   * Number of events dropped because the buffer was full.
+   */
+  public get dropped() {
+    return this._dropped;
+  }
+
+  /**
+   * Whether the iterator has ended, buffered events may still be read.
+   */
+  public get done() {
+    return this._done;
+  }
+
+  /**
+   * Adds a value, handing it to a waiting consumer or buffering it.
+   */
+  public push(value: T) {
+    if (this._done) return;
+
+    if (this._pending) {
+      this._pending.resolve({ value, done: false });
+      this._pending = null;
+      return;
+    }
+
+    if (this._buffer.length >= this._bufferSize) {
+      switch (this._overflow) {
+        case 'dropOldest':
+          this._buffer.shift();
+          this._dropped++;
+          break;
+
+        case 'dropNewest':
+          this._dropped++;
+          return;
+
+        case 'error':
+          this.end(new ArconError('Event buffer overflowed.', { bufferSize: this._bufferSize }));
+          return;
+      }
+    }
+
+    this._buffer.push(value);
+  }
+
+  /**
+   * Stops receiving values. Buffered values are still returned before the iterator finishes.
+   * @param error Thrown to the consumer after the buffered values.
+   */
+  public end(error?: Error) {
+    if (this._done) return;
+
+    this._done = true;
+    this._error = error ?? null;
+    this._onEnd();
+
+    if (this._pending) {
+      const pending = this._pending;
+      this._pending = null;
+
+      if (error) {
+        this._error = null;
+        pending.reject(error);
+      } else {
+        pending.resolve({ value: undefined, done: true });
+      }
+    }
+  }
+
+  public next(): Promise<IteratorResult<T>> {
+    if (this._buffer.length) {
+      return Promise.resolve({ value: this._buffer.shift() as T, done: false });
+    }
+
+    if (this._error) {
+      const error = this._error;
+      this._error = null;
+      return Promise.reject(error);
+    }
+
+    if (this._done) return Promise.resolve({ value: undefined, done: true });
+
+    return new Promise((resolve, reject) => {
+      this._pending = { resolve, reject };
+    });
+  }
+
+  // Called when a for await loop exits early
+  public async return(): Promise<IteratorResult<T>> {
+    this.end();
+    this._buffer = [];
+    this._error = null;
+
+    return { value: undefined, done: true };
+  }
+
+  public [Symbol.asyncIterator]() {
+    return this;
+  }
+}
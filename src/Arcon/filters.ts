@@ -0,0 +1,267 @@
+import { readFile, writeFile } from 'fs/promises';
+import { BeLog, BeLogType } from './beLog';
+import { Arcon } from './index';
+
+export interface FilterException {
+  /** `!=` excludes matching text from the rule, `=` limits the rule to matching text. */
+  operator: '=' | '!=';
+  /** Pattern of the exception, without surrounding quotes. */
+  value: string;
+}
+
+export interface FilterRule {
+  /** Index of the rule in its file, as reported by `BeLog.filter`. */
+  index: number;
+  /** Restriction level of the rule, a sum of 1 (log), 2 (log to console) and 4 (kick). */
+  level: number;
+  /** Pattern the rule matches, without surrounding quotes. */
+  pattern: string;
+  /** Exceptions to the rule. */
+  exceptions: FilterException[];
+}
+
+/** Filter file of each typed `BeLog`. */
+export const filterFiles: Record<Exclude<BeLogType, 'Unknown'>, string> = {
+  Script: 'scripts.txt',
+  CreateVehicle: 'createvehicle.txt',
+  DeleteVehicle: 'deletevehicle.txt',
+  SetVariable: 'setvariable.txt',
+  PublicVariable: 'publicvariable.txt',
+  PublicVariableVal: 'publicvariableval.txt',
+  RemoteExec: 'remoteexec.txt',
+  RemoteControl: 'remotecontrol.txt',
+  SelectPlayer: 'selectplayer.txt',
+  AttachTo: 'attachto.txt',
+  TeamSwitch: 'teamswitch.txt',
+  WaypointCondition: 'waypointcondition.txt',
+  WaypointStatement: 'waypointstatement.txt',
+  AddBackpackCargo: 'addbackpackcargo.txt',
+  AddWeaponCargo: 'addweaponcargo.txt',
+  AddMagazineCargo: 'addmagazinecargo.txt',
+  MPEventHandler: 'mpeventhandler.txt',
+};
+
+// A quoted value with escaped quotes, or a run of non-whitespace characters.
+const valueRegex = /"((?:\\.|[^"\\])*)"|(\S+)/y;
+
+/**
+ * Escapes text so it is matched literally by a filter pattern.
+ */
+export const escapeFilterValue = (text: string) =>
+  text
+    .replace(/[\\^$.*+?()[\]{}|]/g, '\\$&')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+
+const readValue = (line: string, position: number): [string, number] | null => {
+  valueRegex.lastIndex = position;
+  const match = valueRegex.exec(line);
+
+  if (!match) return null;
+
+  return [match[1] ?? match[2], valueRegex.lastIndex];
+};
+
+/**
+ * Parses the contents of a BattlEye filter file. Comments and empty lines are skipped.
+ * @throws {Error} If a rule can not be parsed.
+ */
+export const parseFilterFile = (content: string): FilterRule[] => {
+  const rules: FilterRule[] = [];
+
+  for (const [lineNumber, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+
+    if (!line || line.startsWith('//')) continue;
+
+    const levelMatch = line.match(/^(\d+)\s+/);
+
+    if (!levelMatch) throw new Error(`Invalid filter rule on line ${lineNumber + 1}: ${line}`);
+
+    let position = levelMatch[0].length;
+
+    const pattern = readValue(line, position);
+
+    if (!pattern) throw new Error(`Missing filter pattern on line ${lineNumber + 1}: ${line}`);
+
+    position = pattern[1];
+
+    const exceptions: FilterException[] = [];
+
+    while (position < line.length) {
+      const operator = line.slice(position).match(/^\s*(!=|=)/);
+
+      if (!operator) throw new Error(`Invalid filter exception on line ${lineNumber + 1}: ${line}`);
+
+      position += operator[0].length;
+
+      const value = readValue(line, position);
+
+      if (!value) throw new Error(`Missing filter exception value on line ${lineNumber + 1}: ${line}`);
+
+      exceptions.push({ operator: operator[1] as FilterException['operator'], value: value[0] });
+      position = value[1];
+
+      // Skip whitespace before the next exception
+      while (position < line.length && /\s/.test(line[position])) position++;
+    }
+
+    rules.push({ index: rules.length, level: parseInt(levelMatch[1]), pattern: pattern[0], exceptions });
+  }
+
+  return rules;
+};
+
+/**
+ * Formats rules in the BattlEye filter file format.
+ * @param header Lines written before the rules.
+ */
+export const serializeFilterFile = (rules: FilterRule[], header = ['//new']) => {
+  const lines = rules.map(({ level, pattern, exceptions }) => {
+    const parts = [String(level), `"${pattern}"`, ...exceptions.map(({ operator, value }) => `${operator}"${value}"`)];
+    return parts.join(' ');
+  });
+
+  return `${[...header, ...lines].join('\n')}\n`;
+};
+
+/**
+ * Finds the rule that caused a BattlEye log.
+ */
+export const findFilterRule = (rules: FilterRule[], log: Pick<BeLog, 'filter'>) => rules[log.filter];
+
+/**
+ * Reads and parses a BattlEye filter file.
+ */
+export const readFilterFile = async (path: string) => parseFilterFile(await readFile(path, 'utf8'));
+
+/**
+ * Writes rules to a BattlEye filter file, optionally reloading the filters on the server.
+ * @param reload The server to reload the filters on, and the type of the filter file.
+ */
+export const writeFilterFile = async (
+  path: string,
+  rules: FilterRule[],
+  reload?: { arcon: Arcon; type: Exclude<BeLogType, 'Unknown'> },
+) => {
+  await writeFile(path, serializeFilterFile(rules), 'utf8');
+
+  if (!reload) return;
+
+  if (reload.type === 'Script') await reload.arcon.loadScripts();
+  else await reload.arcon.loadEvents();
+};
+
+const matchesException = (exception: FilterException, text: string) => {
+  try {
+    return new RegExp(exception.value).test(text);
+  } catch {
+    return text.includes(exception.value);
+  }
+};
+
+/**
+ * Collects BattlEye logs and proposes the `!=` exceptions needed to stop them from triggering.
+ * @example
+ * const learner = new FilterLearner('Script');
+ * learner.attach(arcon);
+ * // ... play a session
+ * const rules = learner.apply(await readFilterFile('scripts.txt'));
+ * await writeFilterFile('scripts.txt', rules, { arcon, type: 'Script' });
+ */
+export class FilterLearner {
+  private _type: Exclude<BeLogType, 'Unknown'>;
+  private _logs = new Map<number, Set<string>>();
+  private _arcon: Arcon | null = null;
+
+  /**
+   * @param type - The filter type to learn exceptions for.
+   */
+  constructor(type: Exclude<BeLogType, 'Unknown'>) {
+    this._type = type;
+  }
+
+  /**
+   * Starts collecting logs from an `Arcon` instance.
+   */
+  public attach(arcon: Arcon) {
+    this.detach();
+
+    this._arcon = arcon;
+    arcon.on('beLog', this._onBeLog);
+  }
+
+  /**
+   * Stops collecting logs.
+   */
+  public detach() {
+    this._arcon?.off('beLog', this._onBeLog);
+    this._arcon = null;
+  }
+
+  /**
+   * Records a log. Logs of other filter types are ignored.
+   */
+  public record(log: BeLog) {
+    if (log.type !== this._type) return;
+
+    const logs = this._logs.get(log.filter) ?? new Set();
+    logs.add(log.log.trim());
+
+    this._logs.set(log.filter, logs);
+  }
+
+  /**
+   * Proposes the minimal exceptions for each rule, keyed by rule index.
+   * Logs already covered by an exception of the rule, or by a shorter proposed exception, are skipped.
+   */
+  public propose(rules: FilterRule[] = []) {
+    const proposals = new Map<number, FilterException[]>();
+
+    for (const [index, logs] of this._logs) {
+      const existing = rules[index]?.exceptions.filter((e) => e.operator === '!=') ?? [];
+
+      const texts = [...logs]
+        .filter((text) => !existing.some((exception) => matchesException(exception, text)))
+        .sort((a, b) => a.length - b.length);
+
+      const minimal: string[] = [];
+
+      for (const text of texts) {
+        if (!minimal.some((shorter) => text.includes(shorter))) minimal.push(text);
+      }
+
+      if (minimal.length) {
+        proposals.set(
+          index,
+          minimal.map((text) => ({ operator: '!=', value: escapeFilterValue(text) })),
+        );
+      }
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Returns a copy of the rules with the proposed exceptions added.
+   */
+  public apply(rules: FilterRule[]) {
+    const proposals = this.propose(rules);
+
+    return rules.map((rule) => ({
+      ...rule,
+      exceptions: [...rule.exceptions, ...(proposals.get(rule.index) ?? [])],
+    }));
+  }
+
+  /**
+   * Clears all collected logs.
+   */
+  public reset() {
+    this._logs.clear();
+  }
+
+  private _onBeLog = (log: BeLog) => {
+    this.record(log);
+  };
+}
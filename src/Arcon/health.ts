@@ -0,0 +1,57 @@
+export interface LatencyStats {
+  /** Round-trip time (in ms) of the last response. */
+  last: number | null;
+  /** Average round-trip time (in ms) of all responses. */
+  average: number | null;
+  /** Highest round-trip time (in ms) of all responses. */
+  max: number | null;
+  /** Number of responses measured. */
+  samples: number;
+}
+
+export interface ConnectionHealth {
+  /** Round-trip latency of commands. */
+  commandLatency: LatencyStats;
+  /** Round-trip latency of heartbeats. */
+  heartbeatLatency: LatencyStats;
+  /** Number of packets sent to the server. */
+  packetsSent: number;
+  /** Number of packets received from the server. */
+  packetsReceived: number;
+  /** Number of received packets that could not be parsed. */
+  packetErrors: number;
+  /** Number of received packets with an invalid checksum. */
+  checksumFailures: number;
+  /** Number of server messages received more than once due to retransmission. */
+  duplicateMessages: number;
+  /** When the last packet was received from the server. */
+  lastPacketReceivedAt: Date | null;
+  /** Time (in ms) since the last packet was received from the server. */
+  timeSinceLastPacket: number | null;
+}
+
+/**
+ * Accumulates round-trip times for {@link LatencyStats}.
+ */
+export class LatencyTracker {
+  private _last: number | null = null;
+  private _max: number | null = null;
+  private _total = 0;
+  private _samples = 0;
+
+  record(latency: number) {
+    this._last = latency;
+    this._max = Math.max(this._max ?? 0, latency);
+    this._total += latency;
+    this._samples++;
+  }
+
+  toJSON(): LatencyStats {
+    return {
+      last: this._last,
+      average: this._samples ? this._total / this._samples : null,
+      max: this._max,
+      samples: this._samples,
+    };
+  }
+}
@@ -1,24 +1,68 @@
+import { Readable } from 'stream';
+import { Admin } from './admin';
 import ArconError from './ArconError';
+import { Ban } from './ban';
+import { BeLog, createBeLog } from './beLog';
 import { BaseClient, ClientOptions } from './client';
+import { CommandDropReason, CommandHandle, CommandOptions, CommandPriority, CommandQueue } from './commandQueue';
+import {
+  PlayerTarget,
+  addBanCommand,
+  banCommand,
+  kickCommand,
+  missionCommand,
+  removeBanCommand,
+  sayCommand,
+} from './commands';
+import { EmittedEvent, EventIterator, EventIteratorOptions, WaitForOptions } from './eventIterator';
+import { MessageParser, MessageParserPlugin, MessageParserRegistry, parseMessage } from './messageParsers';
 import { CommandPacketPart, Packet, PacketTypes } from './packet';
-import { Player } from './player';
+import { ConnectingPlayer, Player, PlayerResync } from './player';
+import { Identity, IdentityRegistry, steamIdToGuid } from './steam';
+
+export { BeLog };
 
 export interface ArconOptions extends ClientOptions {
   /** The interval for updating player data. Minimum 5000ms. */
   playerUpdateInterval?: number;
-}
-
-export interface BeLog {
-  type: string;
-  filter: number;
-  log: string;
-  guid: string;
-  player?: Player;
+  /**
+   * The interval for refreshing the list of connected RCon admins.
+   * BattlEye does not announce admins logging out, so disconnects are only detected on refresh.
+   * @default 30000
+   */
+  adminUpdateInterval?: number;
+  /**
+   * Time (in ms) to wait for a response to a command before it is dropped.
+   * @default 5000
+   */
+  commandTimeout?: number;
+  /**
+   * Minimum time (in ms) between sending commands.
+   * @default 500
+   */
+  commandInterval?: number;
+  /**
+   * Maximum number of queued commands. When full, the newest command with a lower priority is dropped
+   * to make room, otherwise the new command is dropped.
+   * @default Infinity
+   */
+  maxQueueLength?: number;
+  /** Known players, used to resolve the identity of connecting players. */
+  identities?: IdentityRegistry;
+  /**
+   * Whether to keep the last known players while reconnecting, and compare them to the player list after reconnecting.
+   * Players that left in the meantime are disconnected with the reason `left during disconnect`,
+   * players that joined are announced with `playerConnected`.
+   * @default false
+   */
+  keepPlayersOnReconnect?: boolean;
+  /** Parsers for server messages not recognised by the built-in parsers, see {@link MessageParserRegistry}. */
+  parsers?: (MessageParser | MessageParserPlugin)[];
 }
 
 const regexes = {
   // Server messages
-  playerConnected: /^Player #(\d+) (.*) \(([\d.]+):\d+\) connected$/,
+  playerConnected: /^Player #(\d+) (.*) \(\[?([\da-fA-F:.]+?)\]?:\d+\) connected$/,
   playerGuidCalculated: /^Player #(\d+) (.*) BE GUID: ([a-z0-9]{32})$/,
   playerGuidVerified: /^Verified GUID \(([a-z0-9]{32})\) of player #(\d+) (.*)$/,
   playerDisconnected: /^Player #(\d+) (.*) disconnected$/,
@@ -26,6 +70,7 @@ const regexes = {
   beLog: /^([a-zA-Z ]+) Log: #(\d+) (.*) \(([a-z0-9]{32})\) - #(\d+) (.+)$/s,
   playerMessage: /^\(([a-zA-Z]+)\) (.+)$/,
   adminMessage: /RCon admin #(\d+): \((.+?)\) (.+)$/,
+  adminLoggedIn: /^RCon admin #(\d+) \(\[?([\da-fA-F:.]+?)\]?:(\d+)\) logged in$/,
   banCheckTimeout: /Ban check timed out, no response from BE Master/,
   masterQueryTimeout: /Master query timed out, no response from BE Master/,
   connectedToBeMaster: /Connected to BE Master/,
@@ -38,23 +83,39 @@ const regexes = {
 
   // Command responses
   playerList:
-    /^(\d+)\s+([\d.]+):\d+\s+([-0-9]+)\s+((?:[a-z0-9]){32}|-)(?:\((\?|OK)\)|)\s+(.+?)(?:(?: \((Lobby)\)$|$))/gm,
+    /^(\d+)\s+\[?([\da-fA-F:.]+?)\]?:\d+\s+([-0-9]+)\s+((?:[a-z0-9]){32}|-)(?:\((\?|OK)\)|)\s+(.+?)(?:(?: \((Lobby)\)$|$))/gm,
   missions: /(.+\.pbo$)/gm,
+  admins: /^(\d+)\s+\[?([\da-fA-F:.]+?)\]?:(\d+)\s*$/gm,
+  bans: /^(\d+)\s+([a-f0-9]{32}|[\d.]+)\s+(perm|-|\d+)(?:[ \t]+(.*?))?\s*$/gm,
 };
 
+export type MessageType = keyof typeof regexes;
+
 export declare interface Arcon {
   on(event: 'connected', listener: () => void): this;
   on(event: 'disconnected', listener: (reason: string, abortReconnect: boolean) => void): this;
   on(event: 'error', listener: (error: Error) => void): this;
   on(event: 'beError', listener: (error: Error) => void): this;
+  on(event: 'reconnecting', listener: (attempt: number, delay: number) => void): this;
+  on(event: 'reconnectFailed', listener: (attempts: number) => void): this;
+  on(event: 'latency', listener: (type: 'command' | 'heartbeat', latency: number) => void): this;
   on(event: 'players', listener: (players: Player[]) => void): this;
   on(event: 'missions', listener: (missions: string[]) => void): this;
-  on(event: 'playerConnected', listener: (player: Player) => void): this;
+  on(event: 'bans', listener: (bans: Ban[]) => void): this;
+  on(event: 'playerConnected', listener: (player: Player, identity?: Identity) => void): this;
   on(event: 'playerDisconnected', listener: (player: Player, reason: string) => void): this;
+  on(event: 'resynced', listener: (resync: PlayerResync) => void): this;
   on(event: 'playerUpdated', listener: (player: Player, changes: [boolean, boolean, boolean]) => void): this;
   on(event: 'beLog', listener: (log: BeLog) => void): this;
   on(event: 'playerMessage', listener: (player: Player, channel: string, message: string) => void): this;
-  on(event: 'adminMessage', listener: (id: number, channel: string, message: string) => void): this;
+  on(
+    event: 'adminMessage',
+    listener: (id: number, channel: string, message: string, admin: Admin | undefined) => void,
+  ): this;
+  on(event: 'admins', listener: (admins: Admin[]) => void): this;
+  on(event: 'adminConnected', listener: (admin: Admin) => void): this;
+  on(event: 'adminDisconnected', listener: (admin: Admin) => void): this;
+  on(event: 'commandDropped', listener: (command: string, reason: CommandDropReason) => void): this;
   on(event: 'console', listener: (data: string) => void): this;
 }
 
@@ -62,74 +123,465 @@ export class Arcon extends BaseClient {
   private _ready = false;
 
   private _players: Map<number, Player> = new Map();
-  private _connectingPlayers: Map<number, Pick<Player, 'id' | 'ip' | 'name'> & { guid?: string }> = new Map();
+  private _bans: Map<number, Ban> = new Map();
+  private _missionList: string[] = [];
+  private _admins: Map<number, Admin> = new Map();
+  private _adminsSynced = false;
+  private _adminUpdateRate: number;
+  private _adminUpdateInterval: NodeJS.Timeout;
+  private _connectingPlayers: Map<number, ConnectingPlayer> = new Map();
   private _playerUpdateRate: number;
   private _playerUpdateInterval: NodeJS.Timeout;
 
   private _lastCommandSentAt: Date | null = null;
+  private _commandTimeout: number;
+  private _commandInterval: number;
   private _commandQueueInterval: NodeJS.Timeout;
-  private _commandQueue: string[] = [];
+  private _commandQueue: CommandQueue;
   private _packetParts: CommandPacketPart[] = [];
-  private _waitingForCommandResponse = false;
   private _pendingCommandPacket: Packet | null = null;
   private _stalePlayerCounter = new Map<string, number>();
+  private _identities: IdentityRegistry;
+  private _parsers: MessageParserRegistry;
+  private _keepPlayers: boolean;
+  private _resyncing = false;
+  private _eventTaps = new Set<(event: string, args: unknown[]) => void>();
+  private _iterators = new Set<Pick<EventIterator<unknown>, 'end'>>();
 
   constructor(options: ArconOptions) {
     super(options);
 
     this._playerUpdateRate = options.playerUpdateInterval ?? 5000;
+    this._adminUpdateRate = options.adminUpdateInterval ?? 30_000;
+    this._commandTimeout = options.commandTimeout ?? 5000;
+    this._commandInterval = options.commandInterval ?? 500;
+    this._identities = options.identities ?? new IdentityRegistry();
+    this._parsers = new MessageParserRegistry(options.parsers);
+    this._keepPlayers = options.keepPlayersOnReconnect ?? false;
+
+    this._commandQueue = new CommandQueue(options.maxQueueLength ?? Infinity, (queued, reason) => {
+      this._logger.warn(`Dropped command ${queued.command}: ${reason}`);
+      this.emit('commandDropped', queued.command, reason);
+    });
 
     this.prependListener('connected', () => {
+      // Players left over from a replay belong to another session
+      if (!this._resyncing) this._players = new Map();
+
       this._commandQueueInterval = setInterval(() => {
         this._processCommandQueue();
-      }, 500);
+      }, this._commandInterval);
 
       this._playerUpdateInterval = setInterval(() => {
-        if (!this._commandQueue.includes('players')) this.sendCommand('players');
+        this.sendCommand('players', { dedupe: true });
       }, this._playerUpdateRate);
 
+      this._adminUpdateInterval = setInterval(() => {
+        this.sendCommand('admins', { dedupe: true });
+      }, this._adminUpdateRate);
+
       this.sendCommand('players');
+      this.sendCommand('admins');
     });
   }
 
   override close(reason?: string, abortReconnect?: boolean) {
-    this._players = new Map();
+    // Reject any commands still waiting for a response
+    if (this._commandQueue.length) this._logger.debug(`Rejecting ${this._commandQueue.length} queued commands`);
+
+    this._commandQueue.clear(
+      (queued) => new ArconError('Connection closed before command completed.', { command: queued.command }),
+    );
+
+    // Players are compared to the first player list after reconnecting, if a reconnect follows
+    if (this._keepPlayers && abortReconnect === false && (this._ready || this._resyncing)) {
+      this._resyncing = true;
+    } else {
+      // Players found by a replay stay available after it ends
+      if (!this.replaying) this._players = new Map();
+      this._resyncing = false;
+    }
+
     this._connectingPlayers = new Map();
+    this._stalePlayerCounter.clear();
     this._packetParts = [];
-    this._commandQueue = [];
-    this._waitingForCommandResponse = false;
     this._pendingCommandPacket = null;
     this._ready = false;
+    this._admins = new Map();
+    this._adminsSynced = false;
 
     clearInterval(this._playerUpdateInterval);
+    clearInterval(this._adminUpdateInterval);
     clearInterval(this._commandQueueInterval);
 
-    return super.close(reason, abortReconnect);
+    const closed = super.close(reason, abortReconnect);
+
+    // No more events are expected, end iterators and streams after they received `disconnected`
+    if (abortReconnect ?? true) {
+      for (const iterator of this._iterators) iterator.end();
+    }
+
+    return closed;
+  }
+
+  protected override _reconnectFailed(attempts: number) {
+    // The kept players will not be compared to a player list anymore
+    this._players = new Map();
+    this._resyncing = false;
+
+    super._reconnectFailed(attempts);
+
+    // No reconnect follows, end iterators and streams after they received `reconnectFailed`
+    for (const iterator of this._iterators) iterator.end();
+  }
+
+  override emit(event: string | symbol, ...args: unknown[]) {
+    if (typeof event === 'string') {
+      for (const tap of this._eventTaps) tap(event, args);
+    }
+
+    return super.emit(event, ...args);
   }
 
   public get players() {
     return this._players;
   }
 
+  /**
+   * Whether the player list has been received since connecting.
+   */
+  public get ready() {
+    return this._ready;
+  }
+
+  /**
+   * Players that have joined but whose GUID is not verified yet, keyed by id.
+   */
+  public get connectingPlayers(): ReadonlyMap<number, ConnectingPlayer> {
+    return this._connectingPlayers;
+  }
+
+  /**
+   * Number of commands waiting to be sent or waiting for a response.
+   */
+  public get queueLength() {
+    return this._commandQueue.length;
+  }
+
+  /**
+   * RCon admins connected to the server, keyed by admin id.
+   */
+  public get admins() {
+    return this._admins;
+  }
+
+  /**
+   * The server's ban list as of the last `bans` command, keyed by ban index.
+   */
+  public get bans() {
+    return this._bans;
+  }
+
+  /**
+   * Known players used to resolve identities.
+   */
+  public get identities() {
+    return this._identities;
+  }
+
+  /**
+   * Custom server message parsers, tried before reporting unknown messages.
+   * @example arcon.parsers.use(exileParsers);
+   */
+  public get parsers() {
+    return this._parsers;
+  }
+
+  /**
+   * Finds a connected player by Steam64 ID.
+   * @throws {ArconError} If the Steam64 ID is invalid.
+   */
+  public findPlayerBySteamId(steamId: string) {
+    const guid = steamIdToGuid(steamId);
+    return [...this._players.values()].find((player) => player.guid === guid);
+  }
+
+  /**
+   * Finds the known identity of a player.
+   */
+  public resolveIdentity(player: Pick<Player, 'guid'>) {
+    return this._identities.resolve(player.guid);
+  }
+
+  /**
+   * Finds cached bans for a GUID or IP address.
+   * @param guidOrIp BattlEye GUID or IP address.
+   */
+  public findBans(guidOrIp: string) {
+    const id = guidOrIp.toLowerCase();
+    return [...this._bans.values()].filter((ban) => ban.id === id);
+  }
+
+  /**
+   * Requests the ban list from the server and updates the cache.
+   * @returns The parsed ban list.
+   */
+  public async fetchBans() {
+    await this.sendCommandAsync('bans');
+    return [...this._bans.values()];
+  }
+
+  /**
+   * Requests the missions available on the server.
+   * @returns The mission file names.
+   */
+  public async fetchMissions() {
+    await this.sendCommandAsync('missions');
+    return [...this._missionList];
+  }
+
   /**
    * Sends a command to the server.
    * @param command Formatted command data.
+   * @param options Priority, de-duplication and expiry of the command.
+   * @returns A handle to cancel the command or wait for its response.
    * @example arcon.sendCommand('reassign');
-   * @example arcon.sendCommand('say -1 Hello Everyone');
+   * @example arcon.sendCommand('say -1 Hello Everyone', { priority: CommandPriority.LOW, expiresIn: 30000 });
+   */
+  public sendCommand(command: string, options: CommandOptions = {}): CommandHandle {
+    return this._queueCommand(command, options, false);
+  }
+
+  /**
+   * Sends a command to the server and waits for its response.
+   * Rejects with an {@link ArconError} if the command times out, the connection
+   * closes before a response is received, or the server does not recognise the command.
+   * @param command Formatted command data.
+   * @param options Priority, de-duplication and expiry of the command.
+   * @returns The response text sent by the server, empty if the command has no output.
+   * @example const bans = await arcon.sendCommandAsync('bans');
+   */
+  public sendCommandAsync(command: string, options: CommandOptions = {}): Promise<string> {
+    return this._queueCommand(command, options, true).response;
+  }
+
+  /**
+   * Kicks a player from the server.
+   * @param player The player or player id to kick.
+   * @param reason Reason shown to the player.
+   */
+  public async kick(player: PlayerTarget, reason?: string) {
+    return this.sendCommandAsync(kickCommand(player, reason), { priority: CommandPriority.HIGH });
+  }
+
+  /**
+   * Bans a connected player.
+   * @param player The player or player id to ban.
+   * @param minutes Duration of the ban, 0 for permanent.
+   * @param reason Reason shown to the player.
+   */
+  public async ban(player: PlayerTarget, minutes?: number, reason?: string) {
+    return this.sendCommandAsync(banCommand(player, minutes, reason), { priority: CommandPriority.HIGH });
+  }
+
+  /**
+   * Adds a ban for a GUID, Steam64 ID or IP address.
+   * @param id BattlEye GUID, Steam64 ID or IPv4 address to ban. Steam64 IDs are banned by their GUID.
+   * @param minutes Duration of the ban, 0 for permanent.
+   * @param reason Reason for the ban.
+   */
+  public async addBan(id: string, minutes?: number, reason?: string) {
+    return this.sendCommandAsync(addBanCommand(id, minutes, reason));
+  }
+
+  /**
+   * Removes a ban.
+   * @param index Index of the ban as listed by the `bans` command.
+   */
+  public async removeBan(index: number) {
+    return this.sendCommandAsync(removeBanCommand(index));
+  }
+
+  /**
+   * Sends a message to a player, or every player if `target` is -1.
+   * @param target The player or player id to message, or -1 for everyone.
+   * @param message Message to send.
+   */
+  public async say(target: PlayerTarget | -1, message: string) {
+    return this.sendCommandAsync(sayCommand(target, message));
+  }
+
+  /** Reloads the server's ban list from bans.txt. */
+  public async loadBans() {
+    return this.sendCommandAsync('loadBans');
+  }
+
+  /** Writes the server's ban list to bans.txt. */
+  public async writeBans() {
+    return this.sendCommandAsync('writeBans');
+  }
+
+  /** Reloads scripts.txt. */
+  public async loadScripts() {
+    return this.sendCommandAsync('loadScripts');
+  }
+
+  /** Reloads the BattlEye event filters. */
+  public async loadEvents() {
+    return this.sendCommandAsync('loadEvents');
+  }
+
+  /** Locks the server, preventing new players from joining. */
+  public async lock() {
+    return this.sendCommandAsync('#lock');
+  }
+
+  /** Unlocks the server. */
+  public async unlock() {
+    return this.sendCommandAsync('#unlock');
+  }
+
+  /**
+   * Loads a mission.
+   * @param mission Name of the mission, without the `.pbo` extension.
+   * @param difficulty Optional difficulty to start the mission on.
+   */
+  public async mission(mission: string, difficulty?: string) {
+    return this.sendCommandAsync(missionCommand(mission, difficulty));
+  }
+
+  /** Restarts the current mission. */
+  public async restart() {
+    return this.sendCommandAsync('#restart');
+  }
+
+  /** Restarts the mission with new player slot selection. */
+  public async reassign() {
+    return this.sendCommandAsync('#reassign');
+  }
+
+  /** Shuts down the server. */
+  public async shutdown() {
+    return this.sendCommandAsync('#shutdown');
+  }
+
+  /**
+   * Iterates over an event, yielding the arguments of each emit.
+   * Events emitted while the consumer is busy are buffered up to `bufferSize`.
+   * The iterator ends when the connection is closed with `abortReconnect`, or reconnecting fails.
+   * @param event Name of the event.
+   * @param options Buffering of the iterator.
+   * @example for await (const [log] of arcon.iterate<[BeLog]>('beLog')) console.log(log.type);
    */
-  public sendCommand(command: string) {
-    this._commandQueue.push(command);
+  public iterate<T extends unknown[] = unknown[]>(event: string, options?: EventIteratorOptions) {
+    return this._createIterator<T>(options, (name, args, push) => {
+      if (name === event) push(args as T);
+    });
   }
 
-  private static _getMessageType(message: string): keyof typeof regexes | undefined {
+  /**
+   * Creates an object mode stream of every emitted event, including `error`.
+   * The stream ends when the connection is closed with `abortReconnect`, or reconnecting fails.
+   * @param options Buffering of the stream while it is not read.
+   */
+  public createEventStream(options?: EventIteratorOptions): Readable {
+    const iterator = this._createIterator<EmittedEvent>(options, (event, args, push) => {
+      push({ event, args, time: new Date() });
+    });
+
+    return Readable.from(iterator);
+  }
+
+  /**
+   * Creates a text stream of every `console` message, one per line.
+   * The stream ends when the connection is closed with `abortReconnect`, or reconnecting fails.
+   * @param options Buffering of the stream while it is not read.
+   * @example arcon.createConsoleStream().pipe(fs.createWriteStream('console.log', { flags: 'a' }));
+   */
+  public createConsoleStream(options?: EventIteratorOptions): Readable {
+    const iterator = this._createIterator<string>(options, (event, args, push) => {
+      if (event === 'console') push(`${args[0]}\n`);
+    });
+
+    return Readable.from(iterator, { objectMode: false });
+  }
+
+  /**
+   * Waits for an event to be emitted.
+   * Rejects with an {@link ArconError} on timeout,
+   * or if the connection is closed with `abortReconnect` or reconnecting fails.
+   * @param event Name of the event.
+   * @param options Predicate the arguments must match and time (in ms) to wait.
+   * @returns The arguments of the event.
+   * @example const [player] = await arcon.waitFor<[Player]>('playerConnected', { predicate: (p) => p.name === 'John' });
+   */
+  public async waitFor<T extends unknown[] = unknown[]>(event: string, { predicate, timeout }: WaitForOptions<T> = {}) {
+    const iterator = this.iterate<T>(event, { bufferSize: 1 });
+
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(
+            () => iterator.end(new ArconError(`Timed out waiting for ${event}.`, { event, timeout })),
+            timeout,
+          );
+
+    try {
+      for await (const args of iterator) {
+        if (!predicate || predicate(...args)) return args;
+      }
+
+      throw new ArconError(`Connection closed while waiting for ${event}.`, { event });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Finds the type of a server message or command response, e.g. `playerConnected` or `beLog`.
+   */
+  public static getMessageType(message: string): MessageType | undefined {
     for (const [type, regex] of Object.entries(regexes)) {
       const re = new RegExp(regex);
       if (re.test(message)) {
-        return type as keyof typeof regexes;
+        return type as MessageType;
       }
     }
   }
 
+  private _queueCommand(command: string, options: CommandOptions, awaited: boolean) {
+    // Nothing is sent while replaying, so the command could only time out
+    if (this.replaying) {
+      const response = Promise.reject(new ArconError('Commands are not sent while replaying traffic.', { command }));
+      response.catch(() => {});
+
+      return { command, response, cancel: () => false };
+    }
+
+    const handle = this._commandQueue.push(command, options, awaited);
+
+    this._logger.debug(`Queued command ${command}`, { queueLength: this._commandQueue.length });
+
+    return handle;
+  }
+
+  private _createIterator<T>(
+    options: EventIteratorOptions | undefined,
+    tap: (event: string, args: unknown[], push: (value: T) => void) => void,
+  ) {
+    const onEmit = (event: string, args: unknown[]) => tap(event, args, (value) => iterator.push(value));
+
+    const iterator: EventIterator<T> = new EventIterator<T>(options, () => {
+      this._eventTaps.delete(onEmit);
+      this._iterators.delete(iterator);
+    });
+
+    this._eventTaps.add(onEmit);
+    this._iterators.add(iterator);
+
+    return iterator;
+  }
+
   protected override _handleCommandPacket(packet: Packet | CommandPacketPart) {
     super._handleCommandPacket(packet);
 
@@ -144,6 +596,11 @@ export class Arcon extends BaseClient {
 
       this._packetParts.push(packet);
 
+      // Large responses can take a while to arrive, only time out if parts stop arriving
+      if (this._pendingCommandPacket?.sequence === packet.sequence) {
+        this._lastCommandSentAt = new Date();
+      }
+
       // Get parts for current sequence
       const parts = this._packetParts.filter((part) => packet.sequence === part.sequence);
 
@@ -161,22 +618,40 @@ export class Arcon extends BaseClient {
     // Invalid command
     if (!commandPacket) return;
 
-    // Heartbeat
-    if (this._pendingCommandPacket?.sequence !== commandPacket.sequence) return;
+    const isPending = this._pendingCommandPacket?.sequence === commandPacket.sequence;
+
+    // Heartbeat, replayed responses are parsed even though their command was never sent
+    if (!isPending && !this.replaying) return;
 
     // Clear command
-    this._pendingCommandPacket = null;
-    this._waitingForCommandResponse = false;
-    this._lastCommandSentAt = null;
-    this._commandQueue.shift();
+    const queued = isPending ? this._commandQueue.shift() : undefined;
+
+    if (isPending) {
+      this._pendingCommandPacket = null;
+      this._lastCommandSentAt = null;
+    }
 
     this._packetParts = [];
 
+    if (queued?.sentAt) {
+      this._logger.debug(`Command ${commandPacket.sequence} answered in ${Date.now() - queued.sentAt}ms`);
+      this._recordLatency('command', Date.now() - queued.sentAt);
+    }
+
     // No data
-    if (!commandPacket.data || commandPacket.data.length === 0) return;
+    if (!commandPacket.data || commandPacket.data.length === 0) {
+      queued?.resolve('');
+      return;
+    }
 
     const commandPacketData = commandPacket.data.toString();
 
+    if (regexes.unknownCommand.test(commandPacketData)) {
+      queued?.reject(new ArconError(`Unknown command: ${queued.command}`, { command: queued.command }));
+    } else {
+      queued?.resolve(commandPacketData);
+    }
+
     // Early check for player list
     if (commandPacketData.startsWith('Players on server:')) {
       this._playerList(commandPacketData);
@@ -188,6 +663,19 @@ export class Arcon extends BaseClient {
       return;
     }
 
+    if (commandPacketData.startsWith('Connected RCon admins:')) {
+      this._adminList(commandPacketData);
+      return;
+    }
+
+    if (commandPacketData.startsWith('GUID Bans:')) {
+      this._banList(commandPacketData);
+      return;
+    }
+
+    // Awaited commands receive their response directly, replayed responses may belong to any command
+    if (queued?.awaited || !isPending) return;
+
     this.emit('error', new Error(`Unsupported command type: ${commandPacket.data}`));
   }
 
@@ -206,10 +694,22 @@ export class Arcon extends BaseClient {
 
     this.emit('console', data);
 
-    // Ignore rcon admins logging in
-    if ((data.startsWith('RCon admin') && data.endsWith('logged in')) || !this._ready) return;
+    // Admins are tracked independently of the player list
+    if (regexes.adminLoggedIn.test(data)) {
+      this._adminLoggedIn(data);
+      return;
+    }
+
+    const type = Arcon.getMessageType(data);
+    const parser = this._parsers.find(data);
+
+    // Custom parsers only take over built-in messages with a higher priority
+    if (parser && (!type || (parser.priority ?? 0) > 0)) {
+      this._customMessage(parser, data);
+      return;
+    }
 
-    const type = Arcon._getMessageType(data);
+    if (!this._ready) return;
 
     if (!type) {
       // Only error on non-empty error messages
@@ -354,7 +854,7 @@ export class Arcon extends BaseClient {
 
       this._connectingPlayers.delete(id);
       this._players.set(newPlayer.id, newPlayer);
-      this.emit('playerConnected', newPlayer);
+      this.emit('playerConnected', newPlayer, this.resolveIdentity(newPlayer));
 
       return;
     }
@@ -363,7 +863,7 @@ export class Arcon extends BaseClient {
     if (player && player.guid === guid && !player.verified) {
       player.verified = true;
 
-      this.emit('playerConnected', player);
+      this.emit('playerConnected', player, this.resolveIdentity(player));
     }
   }
 
@@ -453,13 +953,7 @@ export class Arcon extends BaseClient {
 
     const filter = parseInt(filterStr);
 
-    const beLog: BeLog = {
-      type,
-      filter,
-      log,
-      guid,
-      player,
-    };
+    const beLog = createBeLog(type, filter, log, guid, player);
 
     this.emit('beLog', beLog);
   }
@@ -468,6 +962,8 @@ export class Arcon extends BaseClient {
     const re = new RegExp(regexes.playerList, 'gm');
     const players = [...data.matchAll(re)];
 
+    if (this._resyncing) this._resyncPlayers(players);
+
     for (const player of players) {
       const [, idStr, ip, pingStr, guid, verifiedStr, name, lobbyStr] = player;
 
@@ -495,7 +991,7 @@ export class Arcon extends BaseClient {
       }
 
       // If unverified and not connecting, add to connecting
-      if (!connectingPlayer && !verified && guid !== '-') {
+      if (!existingPlayer && !connectingPlayer && !verified && guid !== '-') {
         this._connectingPlayers.set(id, { id, ip, name, guid });
         continue;
       }
@@ -545,9 +1041,93 @@ export class Arcon extends BaseClient {
     const re = new RegExp(regexes.missions, 'gm');
     const missions = [...data.matchAll(re)].map((m) => m[1]);
 
+    this._missionList = missions;
     this.emit('missions', missions);
   }
 
+  private _customMessage(parser: MessageParser, data: string) {
+    if (parser.ignore) return;
+
+    let payload: unknown;
+
+    try {
+      payload = parseMessage(parser, data);
+    } catch (error) {
+      this.emit('error', new ArconError(`Message parser ${parser.name} failed: ${(error as Error).message}`, data));
+      return;
+    }
+
+    this.emit(parser.event ?? parser.name, payload, data);
+  }
+
+  /**
+   * Compares the players known before a reconnect to the first player list received after it.
+   */
+  private _resyncPlayers(players: RegExpMatchArray[]) {
+    const previous = new Map(this._players);
+    const resync: PlayerResync = { joined: [], left: [], retained: [] };
+
+    this._players = new Map();
+    this._resyncing = false;
+
+    for (const [, idStr, ip, pingStr, guid, verifiedStr, name, lobbyStr] of players) {
+      if (guid === '-') continue;
+
+      const id = parseInt(idStr);
+      const known = previous.get(id);
+
+      // Known players are retained even if the server lists them as unverified again
+      if (known?.guid === guid) {
+        previous.delete(id);
+        this._players.set(id, known);
+        resync.retained.push(known);
+        continue;
+      }
+
+      // Unverified players are announced once verified
+      if (verifiedStr !== 'OK') continue;
+
+      const player = new Player(guid, id, ip, name, parseInt(pingStr), lobbyStr === 'Lobby', true);
+
+      this._players.set(id, player);
+      resync.joined.push(player);
+    }
+
+    resync.left = [...previous.values()];
+
+    for (const player of resync.left) this.emit('playerDisconnected', player, 'left during disconnect');
+    for (const player of resync.joined) this.emit('playerConnected', player, this.resolveIdentity(player));
+
+    this.emit('resynced', resync);
+  }
+
+  private _banList(data: string) {
+    const re = new RegExp(regexes.bans, 'gm');
+    const bans = new Map<number, Ban>();
+
+    for (const [, indexStr, id, minutesStr, reason] of data.matchAll(re)) {
+      const index = parseInt(indexStr);
+
+      let minutesLeft: Ban['minutesLeft'];
+
+      if (minutesStr === 'perm') minutesLeft = 'perm';
+      else if (minutesStr === '-') minutesLeft = 'expired';
+      else minutesLeft = parseInt(minutesStr);
+
+      bans.set(index, {
+        index,
+        type: id.includes('.') ? 'ip' : 'guid',
+        id,
+        minutesLeft,
+        reason: reason ?? '',
+      });
+    }
+
+    this._bans = bans;
+
+    this.emit('bans', [...bans.values()]);
+  }
+
   // Player sends a message
   private _playerMessage(data: string) {
     const re = new RegExp(regexes.playerMessage);
@@ -613,29 +1193,94 @@ export class Arcon extends BaseClient {
 
     const id = parseInt(idStr);
 
-    this.emit('adminMessage', id, channel, message);
+    this.emit('adminMessage', id, channel, message, this._admins.get(id));
+  }
+
+  // RCon admin logs in
+  private _adminLoggedIn(data: string) {
+    const re = new RegExp(regexes.adminLoggedIn);
+    const match = data.match(re);
+
+    if (!match) {
+      this.emit('error', new ArconError("Could not parse 'adminLoggedIn' event", data));
+      return;
+    }
+
+    const [, idStr, ip, portStr] = match;
+
+    const admin: Admin = { id: parseInt(idStr), ip, port: parseInt(portStr) };
+
+    this._admins.set(admin.id, admin);
+
+    this.emit('adminConnected', admin);
+  }
+
+  private _adminList(data: string) {
+    const re = new RegExp(regexes.admins, 'gm');
+    const admins = new Map<number, Admin>();
+
+    for (const [, idStr, ip, portStr] of data.matchAll(re)) {
+      const admin: Admin = { id: parseInt(idStr), ip, port: parseInt(portStr) };
+      admins.set(admin.id, admin);
+    }
+
+    const previous = this._admins;
+    this._admins = admins;
+
+    // Only report changes once the initial admin list is known
+    if (this._adminsSynced) {
+      for (const admin of previous.values()) {
+        const current = admins.get(admin.id);
+
+        if (!current || current.ip !== admin.ip || current.port !== admin.port) {
+          this.emit('adminDisconnected', admin);
+        }
+      }
+
+      for (const admin of admins.values()) {
+        const old = previous.get(admin.id);
+
+        if (!old || old.ip !== admin.ip || old.port !== admin.port) {
+          this.emit('adminConnected', admin);
+        }
+      }
+    }
+
+    this._adminsSynced = true;
+
+    this.emit('admins', [...admins.values()]);
   }
 
   private _processCommandQueue() {
-    if (this._waitingForCommandResponse) {
-      if (this._lastCommandSentAt && Date.now() - this._lastCommandSentAt.getTime() > 5000) {
+    if (this._commandQueue.inFlight) {
+      if (this._lastCommandSentAt && Date.now() - this._lastCommandSentAt.getTime() > this._commandTimeout) {
         this._packetParts = [];
-        this._waitingForCommandResponse = false;
+        this._pendingCommandPacket = null;
+        this._lastCommandSentAt = null;
+
+        this._commandQueue.dropHead('timeout');
       }
 
       return;
     }
 
-    const command = this._commandQueue.at(0);
+    this._commandQueue.dropExpired();
+
+    const queued = this._commandQueue.head;
 
-    if (!command) return;
+    if (!queued) return;
 
-    this._waitingForCommandResponse = true;
+    const { command } = queued;
+
+    this._commandQueue.inFlight = true;
     this._lastCommandSentAt = new Date();
+    queued.sentAt = this._lastCommandSentAt.getTime();
 
     const packet = Packet.create(PacketTypes.Command, Buffer.from(command), this._getSequence());
     this._pendingCommandPacket = packet;
 
+    this._logger.debug(`Sending command ${packet.sequence}: ${command}`);
+
     this._send(packet.toBuffer());
   }
 }
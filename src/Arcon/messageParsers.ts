@@ -0,0 +1,171 @@
+import ArconError from './ArconError';
+
+/**
+ * Parses server messages the built-in parsers do not recognise, e.g. logs sent by mods.
+ * @example
+ * const tradeParser: MessageParser<Trade> = {
+ *   name: 'exileTrade',
+ *   match: /^\[Exile\] (.+) sold (.+) for (\d+) poptabs$/,
+ *   transform: ([, player, item, price]) => ({ player, item, price: parseInt(price) }),
+ * };
+ */
+export interface MessageParser<T = unknown> {
+  /** Unique name of the parser. */
+  name: string;
+  /** Pattern or function matching the messages handled by the parser. */
+  match: RegExp | ((message: string) => boolean);
+  /**
+   * Converts a matched message to the payload of the event.
+   * Receives the result of the pattern, or just the message when `match` is a function.
+   * Errors thrown are emitted as `error` events.
+   * @default The message itself.
+   */
+  transform?: (match: RegExpMatchArray, message: string) => T;
+  /**
+   * Name of the event emitted with the payload and the message.
+   * @default The name of the parser.
+   */
+  event?: string;
+  /**
+   * Parsers are tried by descending priority. Built-in parsers have priority 0 and are tried before
+   * parsers of the same priority, so only parsers with a positive priority can take over built-in messages.
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * Whether to consume matched messages without emitting an event, only suppressing the unknown message error.
+   * @default false
+   */
+  ignore?: boolean;
+}
+
+/** A set of parsers distributed together, e.g. for a mod. */
+export interface MessageParserPlugin {
+  name: string;
+  parsers: MessageParser[];
+}
+
+export interface ParsedMessage {
+  parser: MessageParser;
+  payload: unknown;
+}
+
+// Copies the pattern without global or sticky flags, which would make matching stateful
+const toRegExp = (pattern: RegExp) => new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+
+const test = (parser: MessageParser, message: string) => {
+  if (typeof parser.match === 'function') return parser.match(message);
+
+  return toRegExp(parser.match).test(message);
+};
+
+/**
+ * Converts a message with a parser, regardless of its priority.
+ * @throws If the transform of the parser throws.
+ */
+export const parseMessage = (parser: MessageParser, message: string) => {
+  if (!parser.transform) return message;
+
+  const match =
+    typeof parser.match === 'function'
+      ? (Object.assign([message], { index: 0, input: message }) as RegExpMatchArray)
+      : (message.match(toRegExp(parser.match)) as RegExpMatchArray);
+
+  return parser.transform(match, message);
+};
+
+/**
+ * Custom server message parsers of an `Arcon` instance.
+ */
+export class MessageParserRegistry {
+  private _parsers: MessageParser[] = [];
+
+  /**
+   * @param parsers - Parsers or plugins to register.
+   */
+  constructor(parsers: (MessageParser | MessageParserPlugin)[] = []) {
+    for (const parser of parsers) {
+      if ('parsers' in parser) this.use(parser);
+      else this.register(parser);
+    }
+  }
+
+  get size() {
+    return this._parsers.length;
+  }
+
+  /**
+   * Adds a parser.
+   * @throws {ArconError} If a parser with the same name is registered.
+   */
+  public register<T>(parser: MessageParser<T>) {
+    if (this._parsers.some((p) => p.name === parser.name)) {
+      throw new ArconError(`Message parser ${parser.name} is already registered.`);
+    }
+
+    const priority = parser.priority ?? 0;
+    const index = this._parsers.findIndex((p) => (p.priority ?? 0) < priority);
+
+    // Keep registration order within a priority
+    if (index === -1) this._parsers.push(parser as MessageParser);
+    else this._parsers.splice(index, 0, parser as MessageParser);
+
+    return this;
+  }
+
+  /**
+   * Adds every parser of a plugin.
+   * @throws {ArconError} If a parser with the same name is registered.
+   */
+  public use(plugin: MessageParserPlugin) {
+    for (const parser of plugin.parsers) this.register(parser);
+
+    return this;
+  }
+
+  /**
+   * Consumes messages without emitting an event, suppressing the unknown message error.
+   * @param name Unique name of the parser.
+   * @param match Pattern or function matching the ignored messages.
+   */
+  public ignore(name: string, match: MessageParser['match']) {
+    return this.register({ name, match, ignore: true });
+  }
+
+  /**
+   * Removes a parser.
+   * @returns Whether the parser was registered.
+   */
+  public unregister(name: string) {
+    const index = this._parsers.findIndex((p) => p.name === name);
+
+    if (index === -1) return false;
+
+    this._parsers.splice(index, 1);
+
+    return true;
+  }
+
+  /**
+   * Finds the parser with the highest priority matching a message.
+   */
+  public find(message: string) {
+    return this._parsers.find((parser) => test(parser, message));
+  }
+
+  /**
+   * Parses a message with the first matching parser.
+   * @throws If the transform of the parser throws.
+   */
+  public parse(message: string): ParsedMessage | undefined {
+    const parser = this.find(message);
+
+    if (!parser) return undefined;
+
+    return { parser, payload: parseMessage(parser, message) };
+  }
+
+  public [Symbol.iterator]() {
+    return this._parsers.values();
+  }
+}
@@ -0,0 +1,225 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { ConnectionState } from './client';
+import { BeLog } from './beLog';
+import { Arcon } from './index';
+import { Player } from './player';
+
+export interface MetricsOptions {
+  /**
+   * Prefix of every metric name.
+   * @default 'arcon'
+   */
+  prefix?: string;
+  /** Labels added to every metric, e.g. `{ server: 'altis' }`. */
+  labels?: Record<string, string>;
+  /**
+   * Upper bounds (in seconds) of the command latency histogram buckets.
+   * @default [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+   */
+  latencyBuckets?: number[];
+}
+
+type Labels = Record<string, string>;
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+// Kick reasons are free text, labels only hold their category to keep the number of series bounded
+const kickCategories: [string, RegExp][] = [
+  ['admin', /^Admin (Kick|Ban)\b/i],
+  ['filter', / Restriction #\d+/i],
+  ['ban', /\bBan(ned)?\b/i],
+  [
+    'battleye',
+    /^(Client not responding|Invalid GUID|Bad Player Name|Corrupted Data|Query Timeout|Game Restart Required)/i,
+  ],
+];
+
+const categorizeKick = (reason: string) => kickCategories.find(([, re]) => re.test(reason))?.[0] ?? 'other';
+
+/**
+ * Collects statistics of an {@link Arcon} instance in the Prometheus/OpenMetrics text format.
+ * @example
+ * const metrics = new ArconMetrics(arcon, { labels: { server: 'altis' } });
+ * http.createServer(metrics.requestListener).listen(9100);
+ */
+export class ArconMetrics {
+  private _arcon: Arcon;
+  private _prefix: string;
+  private _labels: Labels;
+  private _buckets: number[];
+
+  private _players: Player[] = [];
+  private _beLogs = new Map<string, { labels: Labels; count: number }>();
+  private _kicks = new Map<string, number>();
+  private _reconnects = 0;
+  private _latencyBuckets: number[];
+  private _latencySum = 0;
+  private _latencyCount = 0;
+
+  /**
+   * @param arcon - The instance to collect statistics from.
+   * @param options - The options for the metrics.
+   */
+  constructor(arcon: Arcon, { prefix, labels, latencyBuckets }: MetricsOptions = {}) {
+    this._arcon = arcon;
+    this._prefix = prefix ?? 'arcon';
+    this._labels = labels ?? {};
+    this._buckets = [...(latencyBuckets ?? [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5])].sort((a, b) => a - b);
+    this._latencyBuckets = this._buckets.map(() => 0);
+
+    arcon.on('players', this._onPlayers);
+    arcon.on('beLog', this._onBeLog);
+    arcon.on('playerDisconnected', this._onPlayerDisconnected);
+    arcon.on('reconnecting', this._onReconnecting);
+    arcon.on('latency', this._onLatency);
+    arcon.on('disconnected', this._onDisconnected);
+  }
+
+  /**
+   * Request listener serving the metrics, for use with `http.createServer`.
+   */
+  public requestListener = (_req: IncomingMessage, res: ServerResponse) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(this.collect());
+  };
+
+  /**
+   * Stops collecting statistics from the instance.
+   */
+  public detach() {
+    this._arcon.off('players', this._onPlayers);
+    this._arcon.off('beLog', this._onBeLog);
+    this._arcon.off('playerDisconnected', this._onPlayerDisconnected);
+    this._arcon.off('reconnecting', this._onReconnecting);
+    this._arcon.off('latency', this._onLatency);
+    this._arcon.off('disconnected', this._onDisconnected);
+  }
+
+  /**
+   * Formats the current statistics in the Prometheus text exposition format.
+   */
+  public collect() {
+    const lines: string[] = [];
+
+    const metric = (name: string, type: string, help: string, samples: [Labels, number, string?][]) => {
+      const fullName = `${this._prefix}_${name}`;
+
+      lines.push(`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`);
+
+      for (const [labels, value, suffix] of samples) {
+        lines.push(`${fullName}${suffix ?? ''}${formatLabels({ ...this._labels, ...labels })} ${value}`);
+      }
+    };
+
+    const lobby = this._players.filter((p) => p.lobby).length;
+    const pings = this._players.map((p) => p.ping);
+    const health = this._arcon.health;
+
+    metric('connected', 'gauge', 'Whether the client is connected to the server.', [
+      [{}, this._arcon.state === ConnectionState.CONNECTED ? 1 : 0],
+    ]);
+
+    metric('players', 'gauge', 'Number of players on the server.', [
+      [{ state: 'lobby' }, lobby],
+      [{ state: 'ingame' }, this._players.length - lobby],
+    ]);
+
+    metric('player_ping_average', 'gauge', 'Average ping of players on the server.', [
+      [{}, pings.length ? pings.reduce((a, b) => a + b, 0) / pings.length : 0],
+    ]);
+
+    metric('player_ping_max', 'gauge', 'Highest ping of players on the server.', [[{}, Math.max(0, ...pings)]]);
+
+    metric(
+      'belogs_total',
+      'counter',
+      'Number of BattlEye logs received.',
+      [...this._beLogs.values()].map(({ labels, count }) => [labels, count]),
+    );
+
+    metric(
+      'kicks_total',
+      'counter',
+      'Number of players kicked from the server, by category of the reason.',
+      [...this._kicks.entries()].map(([reason, count]) => [{ reason }, count]),
+    );
+
+    const buckets: [Labels, number, string][] = this._buckets.map((le, i) => [
+      { le: String(le) },
+      this._latencyBuckets[i],
+      '_bucket',
+    ]);
+
+    metric('command_latency_seconds', 'histogram', 'Round-trip latency of commands.', [
+      ...buckets,
+      [{ le: '+Inf' }, this._latencyCount, '_bucket'],
+      [{}, this._latencySum, '_sum'],
+      [{}, this._latencyCount, '_count'],
+    ]);
+
+    metric('command_queue_length', 'gauge', 'Number of commands waiting to be sent or answered.', [
+      [{}, this._arcon.queueLength],
+    ]);
+
+    metric('reconnects_total', 'counter', 'Number of reconnect attempts.', [[{}, this._reconnects]]);
+
+    metric('packet_errors_total', 'counter', 'Number of received packets that could not be parsed.', [
+      [{}, health.packetErrors],
+    ]);
+
+    metric('checksum_failures_total', 'counter', 'Number of received packets with an invalid checksum.', [
+      [{}, health.checksumFailures],
+    ]);
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private _onPlayers = (players: Player[]) => {
+    this._players = players;
+  };
+
+  private _onBeLog = (log: BeLog) => {
+    const type = log.type === 'Unknown' ? log.rawType : log.type;
+    const key = `${type}#${log.filter}`;
+    const entry = this._beLogs.get(key) ?? { labels: { type, filter: String(log.filter) }, count: 0 };
+
+    entry.count++;
+    this._beLogs.set(key, entry);
+  };
+
+  private _onPlayerDisconnected = (_player: Player, reason: string) => {
+    if (reason === 'disconnected' || reason === 'left during disconnect') return;
+
+    const category = categorizeKick(reason);
+
+    this._kicks.set(category, (this._kicks.get(category) ?? 0) + 1);
+  };
+
+  private _onReconnecting = () => {
+    this._reconnects++;
+  };
+
+  private _onLatency = (type: 'command' | 'heartbeat', latency: number) => {
+    if (type !== 'command') return;
+
+    const seconds = latency / 1000;
+
+    this._buckets.forEach((le, i) => {
+      if (seconds <= le) this._latencyBuckets[i]++;
+    });
+
+    this._latencySum += seconds;
+    this._latencyCount++;
+  };
+
+  private _onDisconnected = () => {
+    this._players = [];
+  };
+}
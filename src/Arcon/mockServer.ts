@@ -0,0 +1,500 @@
+import { RemoteInfo, Socket, createSocket } from 'dgram';
+import EventEmitter from 'events';
+import { AddressInfo, isIP } from 'net';
+import { CommandPacketPart, LoginPacket, Packet, PacketTypes, createPacket } from './packet';
+
+export interface MockBeServerOptions {
+  /** The password clients must log in with. */
+  password: string;
+  /**
+   * Port to listen on, 0 picks a random free port.
+   * @default 0
+   */
+  port?: number;
+  /**
+   * IPv4 or IPv6 address to listen on.
+   * @default '127.0.0.1'
+   */
+  host?: string;
+  /**
+   * Maximum payload size of a command response before it is split into multiple parts.
+   * @default 1000
+   */
+  maxPartSize?: number;
+  /**
+   * Time (in ms) between retransmissions of unacknowledged server messages.
+   * @default 2000
+   */
+  retransmitInterval?: number;
+  /**
+   * Number of times an unacknowledged server message is sent.
+   * @default 5
+   */
+  maxTransmissions?: number;
+}
+
+export interface MockPlayer {
+  id: number;
+  name: string;
+  ip: string;
+  port: number;
+  guid: string;
+  ping: number;
+  verified: boolean;
+  lobby: boolean;
+}
+
+export interface MockAdmin {
+  id: number;
+  ip: string;
+  port: number;
+}
+
+export interface MockBan {
+  id: string;
+  minutesLeft: number | 'perm' | 'expired';
+  reason: string;
+}
+
+/**
+ * Handles a command sent by the client.
+ * Returning a string responds with it, returning `undefined` leaves the command unanswered.
+ */
+export type MockCommandHandler = (args: string, command: string) => string | undefined;
+
+export declare interface MockBeServer {
+  on(event: 'login', listener: (success: boolean, client: RemoteInfo) => void): this;
+  on(event: 'command', listener: (command: string) => void): this;
+  on(event: 'heartbeat', listener: () => void): this;
+  on(event: 'acknowledged', listener: (sequence: number) => void): this;
+}
+
+/**
+ * A local server speaking the BattlEye RCon protocol, for testing and development.
+ * Only a single client is served at a time, the last one to log in.
+ * @extends EventEmitter
+ */
+export class MockBeServer extends EventEmitter {
+  private _password: string;
+  private _port: number;
+  private _host: string;
+  private _maxPartSize: number;
+  private _retransmitInterval: number;
+  private _maxTransmissions: number;
+
+  private _socket: Socket | null = null;
+  private _client: RemoteInfo | null = null;
+
+  private _sequence = 0;
+  private _unacknowledged = new Map<number, NodeJS.Timeout>();
+  private _commandHandlers = new Map<string, MockCommandHandler>();
+
+  /** Players currently on the server, keyed by player id. */
+  readonly players = new Map<number, MockPlayer>();
+  /** RCon admins other than the client, which is always admin #0. */
+  readonly admins = new Map<number, MockAdmin>();
+  /** Bans returned by the `bans` command. */
+  readonly bans: MockBan[] = [];
+  /** Missions returned by the `missions` command. */
+  readonly missions: string[] = [];
+
+  /** Whether the server responds to login packets. */
+  respondToLogin = true;
+  /** Whether the server responds to commands and heartbeats. */
+  respondToCommands = true;
+  /** Whether acknowledgements are ignored, causing every message to be retransmitted. */
+  ignoreAcknowledgements = false;
+
+  constructor({ password, port, host, maxPartSize, retransmitInterval, maxTransmissions }: MockBeServerOptions) {
+    super();
+
+    this._password = password;
+    this._port = port ?? 0;
+    this._host = host ?? '127.0.0.1';
+    this._maxPartSize = maxPartSize ?? 1000;
+    this._retransmitInterval = retransmitInterval ?? 2000;
+    this._maxTransmissions = maxTransmissions ?? 5;
+
+    this._registerDefaultCommands();
+  }
+
+  /**
+   * Port the server is listening on.
+   */
+  get port() {
+    return this._port;
+  }
+
+  /**
+   * Whether a client is currently logged in.
+   */
+  get hasClient() {
+    return this._client !== null;
+  }
+
+  /**
+   * Starts listening for clients.
+   * @returns The port the server is listening on.
+   */
+  public start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const socket = createSocket(isIP(this._host) === 6 ? 'udp6' : 'udp4');
+
+      socket.once('error', reject);
+      socket.on('message', (data, client) => this._handleMessage(data, client));
+
+      socket.bind(this._port, this._host, () => {
+        socket.off('error', reject);
+        this._port = (socket.address() as AddressInfo).port;
+        resolve(this._port);
+      });
+
+      this._socket = socket;
+    });
+  }
+
+  /**
+   * Stops the server and drops the connected client.
+   */
+  public stop(): Promise<void> {
+    for (const timeout of this._unacknowledged.values()) clearTimeout(timeout);
+    this._unacknowledged.clear();
+    this._client = null;
+
+    return new Promise((resolve) => {
+      if (!this._socket) return resolve();
+
+      this._socket.close(() => resolve());
+      this._socket = null;
+    });
+  }
+
+  /**
+   * Sets the handler for a command, replacing any existing handler.
+   * @param command The command name, e.g. `players` or `#lock`.
+   * @example server.onCommand('#lock', () => '');
+   */
+  public onCommand(command: string, handler: MockCommandHandler) {
+    this._commandHandlers.set(command.toLowerCase(), handler);
+  }
+
+  /**
+   * Sends a server message to the client, retransmitting until acknowledged.
+   */
+  public sendMessage(message: string) {
+    if (!this._client) return;
+
+    const sequence = this._sequence;
+    this._sequence = (this._sequence + 1) % 256;
+
+    const data = Packet.create(PacketTypes.Message, Buffer.from(message), sequence).toBuffer();
+
+    let transmissions = 0;
+
+    const transmit = () => {
+      this._send(data);
+      transmissions++;
+
+      if (transmissions >= this._maxTransmissions) {
+        this._unacknowledged.delete(sequence);
+        return;
+      }
+
+      this._unacknowledged.set(sequence, setTimeout(transmit, this._retransmitInterval));
+    };
+
+    transmit();
+  }
+
+  /**
+   * Connects a player and announces their connection and GUID.
+   * The GUID is not verified until {@link verifyGuid} is called.
+   */
+  public playerConnect(player: Partial<MockPlayer> & Pick<MockPlayer, 'name' | 'guid'>) {
+    const id = player.id ?? this._nextPlayerId();
+
+    const newPlayer: MockPlayer = {
+      id,
+      ip: '127.0.0.1',
+      port: 2304,
+      ping: 0,
+      verified: false,
+      lobby: true,
+      ...player,
+    };
+
+    this.players.set(id, newPlayer);
+
+    this.sendMessage(`Player #${id} ${newPlayer.name} (${newPlayer.ip}:${newPlayer.port}) connected`);
+    this.sendMessage(`Player #${id} ${newPlayer.name} BE GUID: ${newPlayer.guid}`);
+
+    return newPlayer;
+  }
+
+  /**
+   * Verifies the GUID of a connected player.
+   */
+  public verifyGuid(id: number) {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    player.verified = true;
+
+    this.sendMessage(`Verified GUID (${player.guid}) of player #${id} ${player.name}`);
+  }
+
+  /**
+   * Disconnects a player.
+   */
+  public playerDisconnect(id: number) {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    this.players.delete(id);
+
+    this.sendMessage(`Player #${id} ${player.name} disconnected`);
+  }
+
+  /**
+   * Kicks a player.
+   */
+  public kickPlayer(id: number, reason: string) {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    this.players.delete(id);
+
+    this.sendMessage(`Player #${id} ${player.name} (${player.guid}) has been kicked by BattlEye: ${reason}`);
+  }
+
+  /**
+   * Logs in another RCon admin and announces it.
+   */
+  public adminLogin(admin: MockAdmin) {
+    this.admins.set(admin.id, admin);
+
+    this.sendMessage(`RCon admin #${admin.id} (${admin.ip}:${admin.port}) logged in`);
+  }
+
+  /**
+   * Logs out an RCon admin. Like BattlEye, this is not announced and only shows in the `admins` command.
+   */
+  public adminLogout(id: number) {
+    this.admins.delete(id);
+  }
+
+  /**
+   * Sends a BattlEye filter log for a player.
+   * @param type The filter type, e.g. `Script` or `RemoteExec`.
+   */
+  public beLog(type: string, id: number, filter: number, log: string) {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    this.sendMessage(`${type} Log: #${id} ${player.name} (${player.guid}) - #${filter} ${log}`);
+  }
+
+  /**
+   * Sends a chat message from a player.
+   */
+  public chat(id: number, channel: string, message: string) {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    this.sendMessage(`(${channel}) ${player.name}: ${message}`);
+  }
+
+  private _nextPlayerId() {
+    let id = 0;
+    while (this.players.has(id)) id++;
+    return id;
+  }
+
+  private _registerDefaultCommands() {
+    this.onCommand('players', () => {
+      const lines = [...this.players.values()].map((p) => {
+        const guid = `${p.guid}(${p.verified ? 'OK' : '?'})`;
+        const name = p.lobby ? `${p.name} (Lobby)` : p.name;
+
+        return `${p.id}   ${p.ip}:${p.port}  ${p.ping}   ${guid} ${name}`;
+      });
+
+      return [
+        'Players on server:',
+        '[#] [IP Address]:[Port] [Ping] [GUID] [Name]',
+        '--------------------------------------------------',
+        ...lines,
+        `(${this.players.size} players in total)`,
+      ].join('\n');
+    });
+
+    this.onCommand('admins', () => {
+      const lines = this._client ? [`0   ${this._client.address}:${this._client.port}`] : [];
+
+      for (const admin of this.admins.values()) lines.push(`${admin.id}   ${admin.ip}:${admin.port}`);
+
+      return ['Connected RCon admins:', '[#] [IP Address]:[Port]', '-----------------------------', ...lines].join(
+        '\n',
+      );
+    });
+
+    this.onCommand('bans', () => {
+      const format = (ban: MockBan, index: number) => {
+        const minutes = ban.minutesLeft === 'expired' ? '-' : ban.minutesLeft;
+        return `${index}  ${ban.id} ${minutes} ${ban.reason}`;
+      };
+
+      const lines = this.bans.map((ban, index) => ({ ban, index }));
+      const guidBans = lines.filter(({ ban }) => !ban.id.includes('.')).map(({ ban, index }) => format(ban, index));
+      const ipBans = lines.filter(({ ban }) => ban.id.includes('.')).map(({ ban, index }) => format(ban, index));
+
+      return [
+        'GUID Bans:',
+        '[#] [GUID] [Minutes left] [Reason]',
+        '----------------------------------------',
+        ...guidBans,
+        '',
+        'IP Bans:',
+        '[#] [IP Address] [Minutes left] [Reason]',
+        '----------------------------------------------',
+        ...ipBans,
+      ].join('\n');
+    });
+
+    this.onCommand('missions', () => ['Missions on server:', ...this.missions].join('\n'));
+
+    this.onCommand('kick', (args) => {
+      const [idStr, ...reason] = args.split(' ');
+      this.kickPlayer(parseInt(idStr), `Admin Kick (${reason.join(' ')})`);
+      return '';
+    });
+
+    this.onCommand('ban', (args) => {
+      const [idStr, minutesStr, ...reason] = args.split(' ');
+      const player = this.players.get(parseInt(idStr));
+
+      if (player) {
+        const minutes = parseInt(minutesStr) || 0;
+        this.bans.push({ id: player.guid, minutesLeft: minutes === 0 ? 'perm' : minutes, reason: reason.join(' ') });
+        this.kickPlayer(player.id, `Admin Ban (${reason.join(' ')})`);
+      }
+
+      return '';
+    });
+
+    this.onCommand('addban', (args) => {
+      const [id, minutesStr, ...reason] = args.split(' ');
+      const minutes = parseInt(minutesStr) || 0;
+
+      this.bans.push({ id, minutesLeft: minutes === 0 ? 'perm' : minutes, reason: reason.join(' ') });
+      return '';
+    });
+
+    this.onCommand('removeban', (args) => {
+      this.bans.splice(parseInt(args), 1);
+      return '';
+    });
+
+    const noop = () => '';
+
+    for (const command of [
+      'say',
+      'loadbans',
+      'writebans',
+      'loadscripts',
+      'loadevents',
+      '#lock',
+      '#unlock',
+      '#mission',
+      '#restart',
+      '#reassign',
+      '#shutdown',
+    ]) {
+      this.onCommand(command, noop);
+    }
+  }
+
+  private _handleMessage(data: Buffer, client: RemoteInfo) {
+    const packet = createPacket(data);
+
+    if (!(packet instanceof Packet || packet instanceof LoginPacket)) return;
+
+    if (packet instanceof LoginPacket) {
+      if (!this.respondToLogin) return;
+
+      const success = packet.data.toString() === this._password;
+
+      if (success) {
+        this._client = client;
+        this._sequence = 0;
+      }
+
+      this._send(LoginPacket.create(Buffer.from([success ? 0x01 : 0x00])).toBuffer(), client);
+      this.emit('login', success, client);
+
+      if (success) this.sendMessage(`RCon admin #0 (${client.address}:${client.port}) logged in`);
+
+      return;
+    }
+
+    // Ignore packets from clients that are not logged in
+    if (!this._client || this._client.address !== client.address || this._client.port !== client.port) return;
+
+    if (packet.type === PacketTypes.Message) {
+      if (this.ignoreAcknowledgements) return;
+
+      const timeout = this._unacknowledged.get(packet.sequence);
+
+      if (timeout) {
+        clearTimeout(timeout);
+        this._unacknowledged.delete(packet.sequence);
+      }
+
+      this.emit('acknowledged', packet.sequence);
+      return;
+    }
+
+    if (!this.respondToCommands) return;
+
+    const command = packet.data?.toString() ?? '';
+
+    // Heartbeat
+    if (!command) {
+      this.emit('heartbeat');
+      this._respond(packet.sequence, '');
+      return;
+    }
+
+    this.emit('command', command);
+
+    const [name, ...args] = command.split(' ');
+    const handler = this._commandHandlers.get(name.toLowerCase());
+
+    const response = handler ? handler(args.join(' '), command) : 'Unknown command';
+
+    if (response !== undefined) this._respond(packet.sequence, response);
+  }
+
+  private _respond(sequence: number, response: string) {
+    const data = Buffer.from(response);
+
+    if (data.length <= this._maxPartSize) {
+      this._send(Packet.create(PacketTypes.Command, data.length ? data : null, sequence).toBuffer());
+      return;
+    }
+
+    const totalPackets = Math.ceil(data.length / this._maxPartSize);
+
+    for (let index = 0; index < totalPackets; index++) {
+      const part = data.subarray(index * this._maxPartSize, (index + 1) * this._maxPartSize);
+
+      this._send(CommandPacketPart.create(PacketTypes.Command, part, sequence, totalPackets, index).toBuffer());
+    }
+  }
+
+  private _send(data: Buffer, client = this._client) {
+    if (!this._socket || !client) return;
+
+    this._socket.send(data, client.port, client.address);
+  }
+}
@@ -125,6 +125,19 @@ export class CommandPacketPart {
     const checksum = crc32(Buffer.from(parts)).reverse();
     return new CommandPacketPart(checksum.toString(), sequence, totalPackets, packetIndex, data);
   }
+
+  toBuffer() {
+    const header = Buffer.from('BE');
+
+    const prefixedData = Buffer.concat([
+      Buffer.from([0xff, this.type, this.sequence, 0x00, this.totalPackets, this.packetIndex]),
+      this.data,
+    ]);
+
+    const checksum = crc32(prefixedData).reverse();
+
+    return Buffer.concat([header, checksum, prefixedData]);
+  }
 }
 
 export class PacketError {
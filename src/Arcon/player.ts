@@ -1,3 +1,20 @@
+import { isIP } from 'net';
+
+export type AddressFamily = 'IPv4' | 'IPv6';
+
+/** A player that has joined, but is not verified yet. The GUID is known once calculated. */
+export type ConnectingPlayer = Pick<Player, 'id' | 'ip' | 'name'> & { guid?: string };
+
+/** Changes to the players found after reconnecting, see `keepPlayersOnReconnect`. */
+export interface PlayerResync {
+  /** Players that joined while disconnected. */
+  joined: Player[];
+  /** Players that left while disconnected. */
+  left: Player[];
+  /** Players that are still connected. */
+  retained: Player[];
+}
+
 export class Player {
   /** BattlEye GUID of player. */
   private _guid: string;
@@ -5,6 +22,8 @@ export class Player {
   private _id: number;
   /** IP of player. */
   private _ip: string;
+  /** Address family of the IP. */
+  private _family: AddressFamily;
   /** Name of player. */
   private _name: string;
   /** Ping of player. */
@@ -18,6 +37,7 @@ export class Player {
     this._guid = guid;
     this._id = id;
     this._ip = ip;
+    this._family = isIP(ip) === 6 ? 'IPv6' : 'IPv4';
     this._name = name;
     this._ping = ping;
     this._lobby = lobby;
@@ -36,6 +56,10 @@ export class Player {
     return this._ip;
   }
 
+  get family() {
+    return this._family;
+  }
+
   get name() {
     return this._name;
   }
@@ -63,4 +87,17 @@ export class Player {
   set verified(verified: boolean) {
     this._verified = verified;
   }
+
+  toJSON() {
+    return {
+      id: this._id,
+      guid: this._guid,
+      ip: this._ip,
+      family: this._family,
+      name: this._name,
+      ping: this._ping,
+      lobby: this._lobby,
+      verified: this._verified,
+    };
+  }
 }
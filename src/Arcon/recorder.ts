@@ -0,0 +1,100 @@
+import { WriteStream, createWriteStream } from 'fs';
+import { readFile } from 'fs/promises';
+import { PacketTypes } from './packet';
+
+export type DatagramDirection = 'in' | 'out';
+
+export interface RecordedDatagram {
+  /** Time the datagram was sent or received, in ms since the Unix epoch. */
+  time: number;
+  direction: DatagramDirection;
+  /** The raw datagram. */
+  data: Buffer;
+}
+
+export interface ReplayOptions {
+  /**
+   * Factor the original timing is sped up by. `Infinity` replays without delays.
+   * @default 1
+   */
+  speed?: number;
+}
+
+// Bytes before the payload of a login packet: BE|CRC32|0xff|TYPE
+const loginHeaderLength = 8;
+
+/**
+ * Parses a recording written by a {@link TrafficRecorder}, one JSON object per line.
+ * @throws {Error} If a line can not be parsed.
+ */
+export const parseRecording = (content: string): RecordedDatagram[] =>
+  content
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => {
+      const { time, direction, data } = JSON.parse(line);
+      return { time, direction, data: Buffer.from(data, 'hex') };
+    });
+
+/**
+ * Reads a recording written by a {@link TrafficRecorder}.
+ */
+export const readRecording = async (path: string) => parseRecording(await readFile(path, 'utf8'));
+
+/**
+ * Records every raw datagram sent and received by a client, to replay them later with `BaseClient.replay`.
+ * The password in outgoing login packets is never recorded.
+ * @example
+ * const recorder = new TrafficRecorder('capture.jsonl');
+ * const arcon = new Arcon({ host, port, password, recorder });
+ */
+export class TrafficRecorder {
+  private _stream: WriteStream | null;
+  private _closed = false;
+
+  /** Datagrams recorded so far, only kept when not recording to a file. */
+  readonly datagrams: RecordedDatagram[] = [];
+
+  /**
+   * @param path - File to append the recording to. Datagrams are only kept in memory if not set.
+   */
+  constructor(path?: string) {
+    this._stream = path ? createWriteStream(path, { flags: 'a' }) : null;
+  }
+
+  /**
+   * Records a datagram. Does nothing once the recorder is closed.
+   */
+  public record(direction: DatagramDirection, data: Buffer) {
+    if (this._closed) return;
+
+    const isLogin = direction === 'out' && data[7] === PacketTypes.Login;
+
+    const datagram: RecordedDatagram = {
+      time: Date.now(),
+      direction,
+      data: Buffer.from(isLogin ? data.subarray(0, loginHeaderLength) : data),
+    };
+
+    if (!this._stream) {
+      this.datagrams.push(datagram);
+      return;
+    }
+
+    this._stream.write(`${JSON.stringify({ time: datagram.time, direction, data: datagram.data.toString('hex') })}\n`);
+  }
+
+  /**
+   * Stops recording and flushes the file.
+   */
+  public close() {
+    this._closed = true;
+
+    return new Promise<void>((resolve) => {
+      if (!this._stream) return resolve();
+
+      this._stream.end(() => resolve());
+      this._stream = null;
+    });
+  }
+}
@@ -0,0 +1,349 @@
+import EventEmitter from 'events';
+import { Interface, createInterface } from 'readline';
+import { BeLog } from './beLog';
+import { parseArgs } from './chatCommands';
+import { Arcon, MessageType } from './index';
+import { Player } from './player';
+
+export interface ReplOptions {
+  /** @default process.stdin */
+  input?: NodeJS.ReadableStream;
+  /** @default process.stdout */
+  output?: NodeJS.WritableStream;
+  /**
+   * Whether to print one JSON object per line instead of text.
+   * @default false
+   */
+  json?: boolean;
+  /**
+   * Whether to colour text output. Defaults to whether the output is a terminal and `NO_COLOR` is not set.
+   */
+  colors?: boolean;
+}
+
+export declare interface ArconRepl {
+  on(event: 'exit', listener: () => void): this;
+}
+
+const colorCodes = {
+  red: 31,
+  green: 32,
+  yellow: 33,
+  blue: 34,
+  magenta: 35,
+  cyan: 36,
+  gray: 90,
+};
+
+type Color = keyof typeof colorCodes;
+
+const messageColors: Partial<Record<MessageType, Color>> = {
+  playerConnected: 'green',
+  playerGuidCalculated: 'green',
+  playerGuidVerified: 'green',
+  playerDisconnected: 'yellow',
+  playerKicked: 'red',
+  beLog: 'magenta',
+  playerMessage: 'cyan',
+  adminMessage: 'blue',
+  adminLoggedIn: 'blue',
+  banCheckTimeout: 'red',
+  masterQueryTimeout: 'red',
+  connectedToBeMaster: 'gray',
+  disconnectedFromBeMaster: 'red',
+  connectionFailedBeMaster: 'red',
+  beMasterFailedToReceive: 'red',
+  filterKickDisabled: 'yellow',
+  eventLogError: 'red',
+};
+
+const help = [
+  '.players                  List connected players',
+  '.bans                     List bans',
+  '.kick <name|id> [reason]  Kick a player, quote names with spaces',
+  '.watch <event>            Toggle printing an event, e.g. beLog',
+  '.json                     Toggle JSON output',
+  '.help                     Show this help',
+  '.exit                     Disconnect and exit',
+  'Anything else is sent to the server as a command.',
+];
+
+/**
+ * Formats rows as a table with padded columns.
+ */
+export const formatTable = (headers: string[], rows: (string | number)[][]) => {
+  const cells = [headers, ...rows.map((row) => row.map(String))];
+  const widths = headers.map((_, i) => Math.max(...cells.map((row) => row[i]?.length ?? 0)));
+
+  return cells.map((row) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd(),
+  );
+};
+
+/**
+ * Interactive prompt for an `Arcon` instance, tailing console output and sending typed commands.
+ * Used by the `arcon` command.
+ * @extends EventEmitter
+ */
+export class ArconRepl extends EventEmitter {
+  private _arcon: Arcon;
+  private _input: NodeJS.ReadableStream;
+  private _output: NodeJS.WritableStream;
+  private _json: boolean;
+  private _colors: boolean;
+  private _terminal: boolean;
+  private _readline: Interface | null = null;
+  private _watched = new Map<string, (...args: unknown[]) => void>();
+
+  /**
+   * @param arcon - The instance to control.
+   * @param options - The options for the prompt.
+   */
+  constructor(arcon: Arcon, { input, output, json, colors }: ReplOptions = {}) {
+    super();
+
+    this._arcon = arcon;
+    this._input = input ?? process.stdin;
+    this._output = output ?? process.stdout;
+    this._json = json ?? false;
+    this._terminal = Boolean((this._output as NodeJS.WriteStream).isTTY);
+    this._colors = colors ?? (this._terminal && !process.env.NO_COLOR);
+  }
+
+  /**
+   * Starts reading commands and printing server output.
+   */
+  public start() {
+    if (this._readline) return;
+
+    this._readline = createInterface({ input: this._input, output: this._output, prompt: 'arcon> ' });
+
+    this._readline.on('line', (line) => {
+      this.execute(line).finally(() => this._readline?.prompt());
+    });
+
+    this._readline.on('close', () => this.emit('exit'));
+
+    this._arcon.on('console', this._onConsole);
+    this._arcon.on('connected', this._onConnected);
+    this._arcon.on('disconnected', this._onDisconnected);
+    this._arcon.on('reconnecting', this._onReconnecting);
+    this._arcon.on('error', this._onError);
+
+    this._readline.prompt();
+  }
+
+  /**
+   * Stops reading commands and printing output.
+   */
+  public stop() {
+    this._arcon.off('console', this._onConsole);
+    this._arcon.off('connected', this._onConnected);
+    this._arcon.off('disconnected', this._onDisconnected);
+    this._arcon.off('reconnecting', this._onReconnecting);
+    this._arcon.off('error', this._onError);
+
+    for (const event of [...this._watched.keys()]) this._unwatch(event);
+
+    const readline = this._readline;
+    this._readline = null;
+    readline?.close();
+  }
+
+  /**
+   * Runs a built-in or sends a command to the server, printing the result.
+   */
+  public async execute(line: string) {
+    const input = line.trim();
+
+    if (!input) return;
+
+    try {
+      if (input.startsWith('.')) await this._builtIn(input);
+      else this._print('response', { command: input, response: await this._arcon.sendCommandAsync(input) });
+    } catch (error) {
+      this._printError(error as Error);
+    }
+  }
+
+  private async _builtIn(input: string) {
+    const [name, ...args] = parseArgs(input);
+
+    switch (name) {
+      case '.players':
+        return this._printPlayers();
+
+      case '.bans':
+        return this._printBans();
+
+      case '.kick':
+        return this._kick(args[0], args.slice(1).join(' '));
+
+      case '.watch':
+        return this._toggleWatch(args[0]);
+
+      case '.json':
+        this._json = !this._json;
+        return this._print('info', { message: `JSON output ${this._json ? 'enabled' : 'disabled'}` });
+
+      case '.help':
+        return this._print('info', { message: help.join('\n') });
+
+      case '.exit':
+      case '.quit':
+        return this.stop();
+
+      default:
+        throw new Error(`Unknown command ${name}, type .help for a list of commands.`);
+    }
+  }
+
+  private _printPlayers() {
+    const players = [...this._arcon.players.values()];
+
+    if (this._json) return this._print('players', { players });
+
+    const rows = players.map((p) => [
+      p.id,
+      p.name,
+      p.ip,
+      p.ping,
+      p.guid,
+      p.verified ? 'yes' : 'no',
+      p.lobby ? 'yes' : 'no',
+    ]);
+
+    this._write(formatTable(['#', 'Name', 'IP', 'Ping', 'GUID', 'Verified', 'Lobby'], rows).join('\n'));
+  }
+
+  private async _printBans() {
+    const bans = await this._arcon.fetchBans();
+
+    if (this._json) return this._print('bans', { bans });
+
+    const rows = bans.map((ban) => [ban.index, ban.type, ban.id, ban.minutesLeft, ban.reason]);
+
+    this._write(formatTable(['#', 'Type', 'GUID/IP', 'Minutes left', 'Reason'], rows).join('\n'));
+  }
+
+  private async _kick(target: string | undefined, reason: string) {
+    if (!target) throw new Error('Usage: .kick <name|id> [reason]');
+
+    const player = this._findPlayer(target);
+
+    await this._arcon.kick(player, reason || undefined);
+
+    this._print('info', { message: `Kicked #${player.id} ${player.name}` });
+  }
+
+  private _findPlayer(target: string): Player {
+    const players = [...this._arcon.players.values()];
+
+    if (/^\d+$/.test(target)) {
+      const player = this._arcon.players.get(parseInt(target));
+      if (player) return player;
+    }
+
+    const name = target.toLowerCase();
+    const exact = players.find((p) => p.name.toLowerCase() === name);
+
+    if (exact) return exact;
+
+    const matches = players.filter((p) => p.name.toLowerCase().includes(name));
+
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) throw new Error(`${matches.length} players match ${target}.`);
+
+    throw new Error(`No player matches ${target}.`);
+  }
+
+  private _toggleWatch(event: string | undefined) {
+    if (!event) throw new Error('Usage: .watch <event>');
+
+    if (this._watched.has(event)) {
+      this._unwatch(event);
+      return this._print('info', { message: `Stopped watching ${event}` });
+    }
+
+    const listener = (...args: unknown[]) => this._printEvent(event, args);
+
+    this._watched.set(event, listener);
+    (this._arcon as EventEmitter).on(event, listener);
+
+    this._print('info', { message: `Watching ${event}` });
+  }
+
+  private _unwatch(event: string) {
+    const listener = this._watched.get(event);
+
+    if (listener) (this._arcon as EventEmitter).off(event, listener);
+    this._watched.delete(event);
+  }
+
+  private _printEvent(event: string, args: unknown[]) {
+    if (this._json) return this._print('event', { event, args });
+
+    if (event === 'beLog') {
+      const log = args[0] as BeLog;
+      const player = log.player ? `#${log.player.id} ${log.player.name}` : log.guid;
+
+      return this._write(this._color(`[${log.type}] ${player} (filter #${log.filter}): ${log.log}`, 'magenta'));
+    }
+
+    this._write(`[${event}] ${args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ')}`);
+  }
+
+  private _onConsole = (message: string) => {
+    const type = Arcon.getMessageType(message);
+
+    if (this._json) return this._print('console', { messageType: type ?? null, message });
+
+    this._write(this._color(message, type && messageColors[type]));
+  };
+
+  private _onConnected = () => this._print('info', { message: 'Connected' }, 'green');
+
+  private _onDisconnected = (reason: string) =>
+    this._print('info', { message: `Disconnected${reason ? `: ${reason}` : ''}` }, 'yellow');
+
+  private _onReconnecting = (attempt: number, delay: number) =>
+    this._print('info', { message: `Reconnecting in ${delay}ms (attempt ${attempt})` }, 'yellow');
+
+  private _onError = (error: Error) => this._printError(error);
+
+  private _printError(error: Error) {
+    this._print('error', { message: error.message }, 'red');
+  }
+
+  // Prints a message as JSON, or its `message` or response as text.
+  private _print(type: string, data: Record<string, unknown>, color?: Color) {
+    if (this._json) return this._write(JSON.stringify({ type, ...data }));
+
+    const text = 'response' in data ? String(data.response) : String(data.message);
+
+    if (text) this._write(this._color(text, color));
+  }
+
+  private _color(text: string, color: Color | undefined) {
+    if (!this._colors || !color) return text;
+
+    return `\x1b[${colorCodes[color]}m${text}\x1b[0m`;
+  }
+
+  // Writes output above the prompt, keeping any partially typed command.
+  private _write(text: string) {
+    const rl = this._readline;
+
+    if (!rl || !this._terminal) {
+      this._output.write(`${text}\n`);
+      return;
+    }
+
+    this._output.write('\r\x1b[K');
+    this._output.write(`${text}\n`);
+    rl.prompt(true);
+  }
+}
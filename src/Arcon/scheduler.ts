@@ -0,0 +1,360 @@
+import EventEmitter from 'events';
+import { ConnectionState } from './client';
+import { Arcon } from './index';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day of month field is restricted, days match either field if both are. */
+  restrictedDayOfMonth: boolean;
+  /** Whether the day of week field is restricted. */
+  restrictedDayOfWeek: boolean;
+}
+
+const cronFields: [name: string, min: number, max: number][] = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7],
+];
+
+const parseCronField = (field: string, [name, min, max]: [string, number, number]) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+
+    if (!match) throw new Error(`Invalid cron ${name}: ${field}`);
+
+    const [, range, startStr, endStr, stepStr] = match;
+
+    const start = range === '*' ? min : parseInt(startStr);
+    const end = range === '*' ? max : endStr !== undefined ? parseInt(endStr) : stepStr ? max : start;
+    const step = stepStr ? parseInt(stepStr) : 1;
+
+    if (start < min || end > max || start > end || step < 1) throw new Error(`Invalid cron ${name}: ${field}`);
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+/**
+ * Parses a five field cron expression: minute, hour, day of month, month and day of week.
+ * Supports `*`, ranges (`1-5`), lists (`1,3`) and steps (`*\/15`).
+ * @throws {Error} If the expression is invalid.
+ * @example parseCron('0 4,16 * * *'); // 04:00 and 16:00 every day
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) throw new Error(`Invalid cron expression: ${expression}`);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseCronField(field, cronFields[i]),
+  );
+
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: fields[2] !== '*',
+    restrictedDayOfWeek: fields[4] !== '*',
+  };
+};
+
+/**
+ * Finds the first time after `after` matching a cron schedule, in local time.
+ */
+export const nextCronDate = (schedule: CronSchedule, after: Date) => {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = after.getTime() + 366 * 24 * 60 * 60 * 1000 * 5;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+    const dayMatches =
+      schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+
+    if (!dayMatches) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new Error('Cron schedule never matches.');
+};
+
+export interface AnnouncementOptions {
+  /** Time (in ms) between announcements. */
+  interval: number;
+  /**
+   * Whether to skip the announcement when no players are on the server.
+   * Announcements due before the player list is received after connecting wait for it.
+   * @default true
+   */
+  skipWhenEmpty?: boolean;
+}
+
+export interface RestartOptions {
+  /**
+   * Command sent when the countdown ends.
+   * @default 'restart'
+   */
+  action?: 'restart' | 'shutdown';
+  /**
+   * Minutes before the restart to warn players.
+   * @default [15, 5, 1]
+   */
+  warnings?: number[];
+  /** Formats the warning message. */
+  message?: (minutes: number) => string;
+}
+
+export interface SchedulerOptions {
+  /**
+   * Time (in ms) between checks for due jobs.
+   * @default 1000
+   */
+  tickInterval?: number;
+  /**
+   * Time (in ms) a job may be overdue and still run, e.g. after a short disconnect.
+   * Jobs overdue by longer are skipped.
+   * @default 60000
+   */
+  gracePeriod?: number;
+}
+
+export type ScheduledJobType = 'announcement' | 'message' | 'restart';
+
+interface ScheduledEvent {
+  at: number;
+  run: () => Promise<unknown>;
+}
+
+interface ScheduledJob {
+  id: string;
+  type: ScheduledJobType;
+  /** Events in order of time. */
+  events: ScheduledEvent[];
+  /** Creates the round of events following `after`, once the previous round has passed. */
+  next: (after: number) => ScheduledEvent[];
+}
+
+export declare interface Scheduler {
+  on(event: 'run', listener: (id: string, type: ScheduledJobType) => void): this;
+  on(event: 'skip', listener: (id: string, type: ScheduledJobType) => void): this;
+  on(event: 'jobFailed', listener: (error: Error, id: string) => void): this;
+}
+
+/**
+ * Runs announcements, one-off messages and restart countdowns on a server.
+ * Jobs only run while the instance is connected. Only the latest event of a job missed while disconnected
+ * runs on reconnect, if it is within the grace period.
+ * @extends EventEmitter
+ */
+export class Scheduler extends EventEmitter {
+  private _arcon: Arcon;
+  private _tickInterval: number;
+  private _gracePeriod: number;
+  private _jobs = new Map<string, ScheduledJob>();
+  private _timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param arcon - The instance to run jobs on.
+   * @param options - The options for the scheduler.
+   */
+  constructor(arcon: Arcon, { tickInterval, gracePeriod }: SchedulerOptions = {}) {
+    super();
+
+    this._arcon = arcon;
+    this._tickInterval = tickInterval ?? 1000;
+    this._gracePeriod = gracePeriod ?? 60_000;
+
+    arcon.on('connected', this._resume);
+    arcon.on('disconnected', this._pause);
+
+    if (arcon.state === ConnectionState.CONNECTED) this._resume();
+  }
+
+  /**
+   * Scheduled jobs and the time of their next event.
+   */
+  public get jobs() {
+    return [...this._jobs.values()].map(({ id, type, events }) => ({
+      id,
+      type,
+      nextRunAt: events.length ? new Date(events[0].at) : null,
+    }));
+  }
+
+  /**
+   * Broadcasts a message at a fixed interval.
+   * @param message The message, or a function creating it.
+   */
+  public announce(
+    id: string,
+    message: string | (() => string),
+    { interval, skipWhenEmpty = true }: AnnouncementOptions,
+  ) {
+    const start = Date.now();
+
+    // Slots stay aligned to when the announcement was added
+    const next = (after: number): ScheduledEvent[] => [
+      {
+        at: start + (Math.floor((after - start) / interval) + 1) * interval,
+        run: async () => {
+          if (skipWhenEmpty) {
+            // The server is only known to be empty once the player list has been received
+            if (!this._arcon.ready) await this._arcon.waitFor('players');
+
+            if (this._arcon.players.size === 0) {
+              this.emit('skip', id, 'announcement');
+              return;
+            }
+          }
+
+          await this._arcon.say(-1, typeof message === 'function' ? message() : message);
+        },
+      },
+    ];
+
+    this._add({ id, type: 'announcement', events: next(start), next });
+  }
+
+  /**
+   * Broadcasts a message once at a given time.
+   */
+  public announceAt(id: string, at: Date, message: string) {
+    const events = [{ at: at.getTime(), run: () => this._arcon.say(-1, message) }];
+
+    this._add({ id, type: 'message', events, next: () => [] });
+  }
+
+  /**
+   * Restarts or shuts down the server on a cron schedule, warning players beforehand.
+   * @param cron Five field cron expression, in local time.
+   * @example scheduler.scheduleRestart('daily', '0 4 * * *', { warnings: [15, 5, 1] });
+   */
+  public scheduleRestart(id: string, cron: string, { action = 'restart', warnings, message }: RestartOptions = {}) {
+    const schedule = parseCron(cron);
+    const formatMessage =
+      message ??
+      ((minutes) =>
+        `Server ${action === 'restart' ? 'restarting' : 'shutting down'} in ${minutes} minute${minutes === 1 ? '' : 's'}`);
+
+    const next = (after: number): ScheduledEvent[] => {
+      const restartAt = nextCronDate(schedule, new Date(after)).getTime();
+
+      const warningEvents = [...new Set(warnings ?? [15, 5, 1])]
+        .sort((a, b) => b - a)
+        .map((minutes) => ({
+          at: restartAt - minutes * 60_000,
+          run: () => this._arcon.say(-1, formatMessage(minutes)),
+        }));
+
+      const restart = {
+        at: restartAt,
+        run: () => (action === 'restart' ? this._arcon.restart() : this._arcon.shutdown()),
+      };
+
+      return [...warningEvents, restart];
+    };
+
+    this._add({ id, type: 'restart', events: next(Date.now()), next });
+  }
+
+  /**
+   * Removes a job.
+   * @returns Whether the job existed.
+   */
+  public cancel(id: string) {
+    return this._jobs.delete(id);
+  }
+
+  /**
+   * Removes all jobs and stops listening to the instance.
+   */
+  public stop() {
+    this._pause();
+    this._jobs.clear();
+
+    this._arcon.off('connected', this._resume);
+    this._arcon.off('disconnected', this._pause);
+  }
+
+  private _add(job: ScheduledJob) {
+    if (this._jobs.has(job.id)) throw new Error(`Job ${job.id} is already scheduled.`);
+
+    this._jobs.set(job.id, job);
+  }
+
+  private _resume = () => {
+    if (this._timer) return;
+
+    this._timer = setInterval(() => this._tick(), this._tickInterval);
+  };
+
+  private _pause = () => {
+    if (!this._timer) return;
+
+    clearInterval(this._timer);
+    this._timer = null;
+  };
+
+  private _tick() {
+    const now = Date.now();
+
+    for (const job of this._jobs.values()) {
+      // Only the latest due event runs, the ones before it were missed while disconnected
+      let due: ScheduledEvent | undefined;
+
+      while (job.events.length && job.events[0].at <= now) due = job.events.shift();
+
+      if (!due) continue;
+
+      if (now - due.at <= this._gracePeriod) {
+        this.emit('run', job.id, job.type);
+        due.run().catch((error) => this.emit('jobFailed', error, job.id));
+      }
+
+      // Schedule the next round once the last event has passed
+      if (job.events.length === 0) job.events = job.next(now);
+
+      if (job.events.length === 0) this._jobs.delete(job.id);
+    }
+  }
+}
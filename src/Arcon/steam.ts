@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import ArconError from './ArconError';
+
+// Individual Steam accounts use the 7656119... universe/type prefix
+const steamIdRegex = /^7656119\d{10}$/;
+
+export interface Identity {
+  /** Steam64 ID of the player. */
+  steamId: string;
+  /** BattlEye GUID derived from the Steam64 ID. */
+  guid: string;
+  /** Known name of the player. */
+  name?: string;
+}
+
+/**
+ * Checks whether a string is a Steam64 ID of an individual account.
+ */
+export const isSteamId = (value: string) => steamIdRegex.test(value);
+
+/**
+ * Computes the BattlEye GUID of a Steam64 ID: the MD5 hash of `BE` followed by the ID as a 64 bit little endian integer.
+ * @throws {ArconError} If the Steam64 ID is invalid.
+ * @example steamIdToGuid('76561197960265728'); // '4fc867abf98b934e9e7eeaf15170258c'
+ */
+export const steamIdToGuid = (steamId: string) => {
+  if (!isSteamId(steamId)) throw new ArconError(`Invalid Steam64 ID: ${steamId}`);
+
+  const id = Buffer.alloc(8);
+  id.writeBigUInt64LE(BigInt(steamId));
+
+  return createHash('md5')
+    .update(Buffer.concat([Buffer.from('BE'), id]))
+    .digest('hex');
+};
+
+/**
+ * Known players keyed by Steam64 ID, resolvable by their BattlEye GUID.
+ * @example
+ * const identities = new IdentityRegistry([{ steamId: '76561198000000000', name: 'John' }]);
+ * identities.resolve(player.guid)?.steamId;
+ */
+export class IdentityRegistry {
+  private _byGuid = new Map<string, Identity>();
+  private _bySteamId = new Map<string, Identity>();
+
+  /**
+   * @param identities - Players to add to the registry.
+   */
+  constructor(identities: Omit<Identity, 'guid'>[] = []) {
+    for (const { steamId, name } of identities) this.add(steamId, name);
+  }
+
+  get size() {
+    return this._bySteamId.size;
+  }
+
+  /**
+   * Adds or updates a player.
+   * @throws {ArconError} If the Steam64 ID is invalid.
+   */
+  public add(steamId: string, name?: string) {
+    const identity: Identity = { steamId, guid: steamIdToGuid(steamId), name };
+
+    this._bySteamId.set(steamId, identity);
+    this._byGuid.set(identity.guid, identity);
+
+    return identity;
+  }
+
+  /**
+   * Removes a player.
+   * @returns Whether the player was known.
+   */
+  public remove(steamId: string) {
+    const identity = this._bySteamId.get(steamId);
+
+    if (!identity) return false;
+
+    this._bySteamId.delete(steamId);
+    this._byGuid.delete(identity.guid);
+
+    return true;
+  }
+
+  /**
+   * Finds the player with a BattlEye GUID.
+   */
+  public resolve(guid: string) {
+    return this._byGuid.get(guid.toLowerCase());
+  }
+
+  /**
+   * Finds the player with a Steam64 ID.
+   */
+  public get(steamId: string) {
+    return this._bySteamId.get(steamId);
+  }
+
+  public clear() {
+    this._byGuid.clear();
+    this._bySteamId.clear();
+  }
+
+  public [Symbol.iterator]() {
+    return this._bySteamId.values();
+  }
+}
@@ -0,0 +1,214 @@
+import { createHash } from 'crypto';
+import EventEmitter from 'events';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+// https://www.rfc-editor.org/rfc/rfc6455#section-1.3
+const handshakeGuid = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+enum Opcode {
+  Continuation = 0x0,
+  Text = 0x1,
+  Binary = 0x2,
+  Close = 0x8,
+  Ping = 0x9,
+  Pong = 0xa,
+}
+
+export interface WebSocketOptions {
+  /**
+   * Maximum size (in bytes) of messages from the client, larger frames close the connection with status 1009.
+   * @default 65536
+   */
+  maxPayload?: number;
+  /**
+   * Maximum size (in bytes) of messages waiting to be sent, clients reading slower are disconnected.
+   * @default 1048576
+   */
+  maxBufferedBytes?: number;
+}
+
+export declare interface WebSocketConnection {
+  on(event: 'message', listener: (data: string) => void): this;
+  on(event: 'close', listener: () => void): this;
+}
+
+/**
+ * Server side of a WebSocket connection, supporting unfragmented text messages.
+ * Only used to stream events, so binary and fragmented messages from clients are ignored.
+ * @extends EventEmitter
+ */
+export class WebSocketConnection extends EventEmitter {
+  private _socket: Duplex;
+  private _maxPayload: number;
+  private _maxBufferedBytes: number;
+  private _buffer = Buffer.alloc(0);
+  private _closed = false;
+
+  /**
+   * @param socket - The socket of an accepted upgrade request.
+   * @param options - The limits of the connection.
+   */
+  constructor(socket: Duplex, { maxPayload, maxBufferedBytes }: WebSocketOptions = {}) {
+    super();
+
+    this._socket = socket;
+    this._maxPayload = maxPayload ?? 65_536;
+    this._maxBufferedBytes = maxBufferedBytes ?? 1_048_576;
+
+    socket.on('data', (data: Buffer) => this._onData(data));
+    socket.on('close', () => this._onClose());
+    socket.on('error', () => socket.destroy());
+  }
+
+  /**
+   * Completes the handshake of an upgrade request.
+   * @returns The connection, or `null` if the request is not a valid WebSocket upgrade.
+   */
+  static accept(req: IncomingMessage, socket: Duplex, options?: WebSocketOptions) {
+    const key = req.headers['sec-websocket-key'];
+
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return null;
+    }
+
+    const accept = createHash('sha1').update(`${key}${handshakeGuid}`).digest('base64');
+
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        '',
+      ].join('\r\n'),
+    );
+
+    return new WebSocketConnection(socket, options);
+  }
+
+  public get closed() {
+    return this._closed;
+  }
+
+  /**
+   * Sends a text message.
+   * Disconnects the client if it is not reading fast enough to keep the pending messages under `maxBufferedBytes`.
+   */
+  public send(text: string) {
+    if (this._closed) return;
+
+    // Messages would otherwise pile up in memory for as long as the client stays connected
+    if (this._socket.writableLength > this._maxBufferedBytes) {
+      this._socket.destroy();
+      this._onClose();
+      return;
+    }
+
+    this._socket.write(WebSocketConnection._frame(Opcode.Text, Buffer.from(text)));
+  }
+
+  /**
+   * Closes the connection.
+   * @param code Status code sent to the client.
+   */
+  public close(code = 1000) {
+    if (this._closed) return;
+
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+
+    this._socket.end(WebSocketConnection._frame(Opcode.Close, payload));
+    this._onClose();
+  }
+
+  private static _frame(opcode: Opcode, payload: Buffer) {
+    let header: Buffer;
+
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header.writeUInt8(0x80 | opcode, 0);
+      header.writeUInt8(126, 1);
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header.writeUInt8(0x80 | opcode, 0);
+      header.writeUInt8(127, 1);
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    return Buffer.concat([header, payload]);
+  }
+
+  private _onData(data: Buffer) {
+    if (this._closed) return;
+
+    this._buffer = Buffer.concat([this._buffer, data]);
+
+    // Parse every complete frame in the buffer
+    while (this._buffer.length >= 2) {
+      const opcode = this._buffer[0] & 0x0f;
+      const masked = (this._buffer[1] & 0x80) !== 0;
+      let length = this._buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this._buffer.length < 4) return;
+        length = this._buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this._buffer.length < 10) return;
+        length = Number(this._buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      // Checked before buffering the payload, as the length is chosen by the client
+      if (length > this._maxPayload) {
+        this._buffer = Buffer.alloc(0);
+        this.close(1009);
+        return;
+      }
+
+      const mask = masked ? this._buffer.subarray(offset, offset + 4) : null;
+      if (mask) offset += 4;
+
+      if (this._buffer.length < offset + length) return;
+
+      const payload = Buffer.from(this._buffer.subarray(offset, offset + length));
+      this._buffer = this._buffer.subarray(offset + length);
+
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      }
+
+      this._handleFrame(opcode, payload);
+    }
+  }
+
+  private _handleFrame(opcode: Opcode, payload: Buffer) {
+    switch (opcode) {
+      case Opcode.Text:
+        this.emit('message', payload.toString());
+        break;
+
+      case Opcode.Ping:
+        if (!this._closed) this._socket.write(WebSocketConnection._frame(Opcode.Pong, payload));
+        break;
+
+      case Opcode.Close:
+        this.close();
+        break;
+    }
+  }
+
+  private _onClose() {
+    if (this._closed) return;
+
+    this._closed = true;
+    this.emit('close');
+  }
+}
@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+import { Arcon } from './Arcon';
+import { ArconRepl } from './Arcon/repl';
+
+const usage = `Usage: arcon [options]
+
+Options:
+  -h, --host <host>          Host of the RCON server (ARCON_HOST)
+  -p, --port <port>          Port of the RCON server (ARCON_PORT)
+  -P, --password <password>  Password of the RCON server (ARCON_PASSWORD)
+      --json                 Print one JSON object per line
+      --no-color             Disable coloured output
+      --help                 Show this help
+`;
+
+const flags: Record<string, string> = {
+  '-h': 'host',
+  '--host': 'host',
+  '-p': 'port',
+  '--port': 'port',
+  '-P': 'password',
+  '--password': 'password',
+};
+
+const parseFlags = (argv: string[]) => {
+  const values: Record<string, string> = {};
+  const switches = new Set<string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s);
+
+    if (flag in flags) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${flag}`);
+
+      values[flags[flag]] = value;
+    } else if (['--json', '--no-color', '--help'].includes(flag)) {
+      switches.add(flag);
+    } else {
+      throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+
+  return { values, switches };
+};
+
+const main = () => {
+  const { values, switches } = parseFlags(process.argv.slice(2));
+
+  if (switches.has('--help')) {
+    process.stdout.write(usage);
+    return;
+  }
+
+  const host = values.host ?? process.env.ARCON_HOST;
+  const port = parseInt(values.port ?? process.env.ARCON_PORT ?? '');
+  const password = values.password ?? process.env.ARCON_PASSWORD;
+
+  if (!host || !password || Number.isNaN(port)) {
+    throw new Error('Host, port and password are required.');
+  }
+
+  const arcon = new Arcon({ host, port, password });
+
+  const repl = new ArconRepl(arcon, {
+    json: switches.has('--json'),
+    colors: switches.has('--no-color') ? false : undefined,
+  });
+
+  repl.on('exit', () => {
+    arcon.close('Exited.', true);
+    process.exit(0);
+  });
+
+  repl.start();
+  arcon.connect();
+};
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`${(error as Error).message}\n\n${usage}`);
+  process.exit(1);
+}
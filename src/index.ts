@@ -1,2 +1,110 @@
-export { Arcon, BeLog } from './Arcon';
-export { Player } from './Arcon/player';
+export { Arcon, ArconOptions, MessageType } from './Arcon';
+export { Admin } from './Arcon/admin';
+export {
+  AutoModAction,
+  AutoModActionType,
+  AutoModRule,
+  AutoModerator,
+  AutoModeratorOptions,
+  ChatRule,
+  LobbyRule,
+  NameRule,
+  PingRule,
+  UnverifiedRule,
+} from './Arcon/autoMod';
+export { Ban } from './Arcon/ban';
+export {
+  BanDrift,
+  BanManager,
+  BanOptions,
+  BanRecord,
+  BanStore,
+  JsonFileBanStore,
+  MemoryBanStore,
+  isBanActive,
+  parseBansFile,
+  serializeBansFile,
+} from './Arcon/banStore';
+export { ArconBridge, BridgeOptions, BridgeScope } from './Arcon/bridge';
+export { default as ArconError } from './Arcon/ArconError';
+export {
+  BeLog,
+  BeLogType,
+  CargoBeLog,
+  CodeBeLog,
+  Position,
+  RemoteExecBeLog,
+  TargetBeLog,
+  UnknownBeLog,
+  VariableBeLog,
+  VehicleBeLog,
+} from './Arcon/beLog';
+export { ClientOptions, ConnectionState, ReconnectOptions } from './Arcon/client';
+export {
+  ChatCommand,
+  ChatCommandContext,
+  ChatCommandRouter,
+  ChatCommandRouterOptions,
+  parseArgs,
+} from './Arcon/chatCommands';
+export { ArconCluster, ClusterServerOptions, ServerHealth } from './Arcon/cluster';
+export { CommandDropReason, CommandHandle, CommandOptions, CommandPriority } from './Arcon/commandQueue';
+export { PlayerTarget, isGuid } from './Arcon/commands';
+export { LogLevel, Logger, createConsoleLogger, formatDatagram, hexDump, silentLogger } from './Arcon/diagnostics';
+export {
+  EmittedEvent,
+  EventIterator,
+  EventIteratorOptions,
+  OverflowPolicy,
+  WaitForOptions,
+} from './Arcon/eventIterator';
+export {
+  FilterException,
+  FilterLearner,
+  FilterRule,
+  escapeFilterValue,
+  filterFiles,
+  findFilterRule,
+  parseFilterFile,
+  readFilterFile,
+  serializeFilterFile,
+  writeFilterFile,
+} from './Arcon/filters';
+export { ConnectionHealth, LatencyStats } from './Arcon/health';
+export {
+  MessageParser,
+  MessageParserPlugin,
+  MessageParserRegistry,
+  ParsedMessage,
+  parseMessage,
+} from './Arcon/messageParsers';
+export { ArconMetrics, MetricsOptions } from './Arcon/metrics';
+export {
+  MockAdmin,
+  MockBan,
+  MockBeServer,
+  MockBeServerOptions,
+  MockCommandHandler,
+  MockPlayer,
+} from './Arcon/mockServer';
+export { AddressFamily, ConnectingPlayer, Player, PlayerResync } from './Arcon/player';
+export {
+  DatagramDirection,
+  RecordedDatagram,
+  ReplayOptions,
+  TrafficRecorder,
+  parseRecording,
+  readRecording,
+} from './Arcon/recorder';
+export { ArconRepl, ReplOptions, formatTable } from './Arcon/repl';
+export {
+  AnnouncementOptions,
+  CronSchedule,
+  RestartOptions,
+  ScheduledJobType,
+  Scheduler,
+  SchedulerOptions,
+  nextCronDate,
+  parseCron,
+} from './Arcon/scheduler';
+export { Identity, IdentityRegistry, isSteamId, steamIdToGuid } from './Arcon/steam';
@@ -0,0 +1,565 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { Arcon } from '../../src/Arcon';
+import ArconError from '../../src/Arcon/ArconError';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+import { Player } from '../../src/Arcon/player';
+import { steamIdToGuid } from '../../src/Arcon/steam';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+describe('Arcon', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+  let arcon: Arcon;
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'password', maxPartSize: 64 });
+    await server.start();
+
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'password', autoReconnect: false });
+    arcon.on('error', () => {});
+  });
+
+  afterEach(async () => {
+    arcon.close('Test finished.', true);
+    await server.stop();
+  });
+
+  it('Connects and fetches the initial player list', async () => {
+    server.playerConnect({ id: 0, name: 'Existing', guid, verified: true, lobby: false });
+
+    arcon.connect();
+
+    const [players] = await once(arcon, 'players');
+
+    expect(players).to.have.length(1);
+    expect(arcon.players.get(0)?.name).to.equal('Existing');
+  });
+
+  it('Emits an error and disconnects on an invalid password', async () => {
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'wrong', autoReconnect: false });
+
+    let error: Error | undefined;
+    arcon.on('error', (e) => (error = e));
+
+    const disconnected = new Promise<boolean>((resolve) => {
+      arcon.once('disconnected', (_reason, abortReconnect) => resolve(abortReconnect));
+    });
+
+    arcon.connect();
+
+    const abortReconnect = await disconnected;
+
+    expect(error).to.be.instanceOf(ArconError);
+    expect(abortReconnect).to.equal(true);
+  });
+
+  it('Emits `playerConnected` once a player GUID is verified', async () => {
+    arcon.connect();
+    await once(arcon, 'players');
+
+    server.playerConnect({ id: 1, name: 'Joining', guid });
+    server.verifyGuid(1);
+
+    const [player] = await once(arcon, 'playerConnected');
+
+    expect(player).to.be.instanceOf(Player);
+    expect(player.guid).to.equal(guid);
+
+    server.kickPlayer(1, 'Bye');
+
+    const [, reason] = await once(arcon, 'playerDisconnected');
+
+    expect(reason).to.equal('Bye');
+  });
+
+  it('Resolves the identity of connecting players', async () => {
+    const steamId = '76561197960265728';
+
+    arcon.identities.add(steamId, 'John');
+    arcon.connect();
+    await once(arcon, 'players');
+
+    server.playerConnect({ id: 1, name: 'Joining', guid: steamIdToGuid(steamId) });
+    server.verifyGuid(1);
+
+    const [, identity] = await once(arcon, 'playerConnected');
+
+    expect(identity).to.include({ steamId, name: 'John' });
+  });
+
+  it('Tracks RCon admins logging in and out', async () => {
+    arcon.connect();
+    await once(arcon, 'admins');
+
+    const events: string[] = [];
+
+    arcon.on('adminConnected', (admin) => events.push(`connected #${admin.id}`));
+    arcon.on('adminDisconnected', (admin) => events.push(`disconnected #${admin.id}`));
+
+    server.adminLogin({ id: 1, ip: '10.0.0.2', port: 50_000 });
+    await once(arcon, 'adminConnected');
+
+    expect(arcon.admins.get(1)).to.deep.equal({ id: 1, ip: '10.0.0.2', port: 50_000 });
+
+    // Logouts are only noticed in the admin list, which also reports logins that were missed
+    server.adminLogout(1);
+    server.admins.set(2, { id: 2, ip: '10.0.0.3', port: 50_001 });
+
+    await arcon.sendCommandAsync('admins');
+
+    expect(events).to.deep.equal(['connected #1', 'disconnected #1', 'connected #2']);
+    expect([...arcon.admins.keys()]).to.deep.equal([0, 2]);
+  });
+
+  it('Resolves multi-part command responses', async () => {
+    for (let i = 0; i < 20; i++) {
+      server.bans.push({ id: guid, minutesLeft: i === 0 ? 'perm' : i, reason: `Reason ${i}` });
+    }
+
+    arcon.connect();
+
+    const bans = await arcon.fetchBans();
+
+    expect(bans).to.have.length(20);
+    expect(bans[0].minutesLeft).to.equal('perm');
+    expect(bans[19].reason).to.equal('Reason 19');
+  });
+
+  it('Resolves command responses and rejects pending commands on close', async () => {
+    server.onCommand('status', () => 'All good');
+    server.onCommand('hang', () => undefined);
+
+    arcon.connect();
+
+    expect(await arcon.sendCommandAsync('status')).to.equal('All good');
+
+    const pending = arcon.sendCommandAsync('hang');
+    await once(server, 'command');
+
+    arcon.close('Done.', true);
+
+    try {
+      await pending;
+      expect.fail('Command should have been rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ArconError);
+      expect((error as Error).message).to.equal('Connection closed before command completed.');
+    }
+  });
+
+  it('Parses multi-part ban lists', async () => {
+    server.bans.push({ id: guid, minutesLeft: 'perm', reason: 'Cheating' });
+    server.bans.push({ id: '10.0.0.1', minutesLeft: 'expired', reason: 'Spam' });
+    server.bans.push({ id: 'fedcba9876543210fedcba9876543210', minutesLeft: 42, reason: '' });
+
+    arcon.connect();
+
+    const bans = await arcon.fetchBans();
+
+    // GUID bans are listed before IP bans
+    expect(bans).to.deep.equal([
+      { index: 0, type: 'guid', id: guid, minutesLeft: 'perm', reason: 'Cheating' },
+      { index: 2, type: 'guid', id: 'fedcba9876543210fedcba9876543210', minutesLeft: 42, reason: '' },
+      { index: 1, type: 'ip', id: '10.0.0.1', minutesLeft: 'expired', reason: 'Spam' },
+    ]);
+  });
+
+  it('Rejects unknown commands', async () => {
+    arcon.connect();
+
+    try {
+      await arcon.sendCommandAsync('notACommand');
+      expect.fail('Command should have been rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ArconError);
+    }
+  });
+
+  it('Sends messages, kicks and bans players', async () => {
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'password', commandInterval: 10 });
+    arcon.on('error', () => {});
+
+    const commands: string[] = [];
+    server.on('command', (command) => commands.push(command));
+
+    const otherGuid = 'fedcba9876543210fedcba9876543210';
+
+    server.playerConnect({ id: 0, name: 'Kicked', guid, verified: true, lobby: false });
+    server.playerConnect({ id: 1, name: 'Banned', guid: otherGuid, verified: true, lobby: false });
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    await arcon.say(-1, 'Hello');
+    await arcon.kick(arcon.players.get(0) as Player, 'Bye');
+    await arcon.ban(1, 60, 'Cheating');
+    await arcon.addBan(guid.toUpperCase(), 0, 'Evading');
+
+    // Ignore the player and admin lists requested on login
+    expect(commands.filter((command) => !['players', 'admins'].includes(command))).to.deep.equal([
+      'say -1 Hello',
+      'kick 0 Bye',
+      'ban 1 60 Cheating',
+      `addBan ${guid} 0 Evading`,
+    ]);
+    expect(server.players.size).to.equal(0);
+    expect(server.bans.map(({ id, minutesLeft }) => [id, minutesLeft])).to.deep.equal([
+      [otherGuid, 60],
+      [guid, 'perm'],
+    ]);
+  });
+
+  it('Lists and loads missions', async () => {
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'password', commandInterval: 10 });
+    arcon.on('error', () => {});
+
+    server.missions.push('co_10_escape.altis.pbo', 'tdm.stratis.pbo');
+
+    arcon.connect();
+
+    expect(await arcon.fetchMissions()).to.deep.equal(['co_10_escape.altis.pbo', 'tdm.stratis.pbo']);
+
+    const commands: string[] = [];
+    server.on('command', (command) => commands.push(command));
+
+    await arcon.mission('co_10_escape.altis', 'veteran');
+
+    expect(commands).to.include('#mission co_10_escape.altis veteran');
+  });
+
+  it('Ignores retransmitted server messages', async () => {
+    await server.stop();
+
+    server = new MockBeServer({ password: 'password', retransmitInterval: 50 });
+    await server.start();
+
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'password', autoReconnect: false });
+    arcon.on('error', () => {});
+
+    let messages = 0;
+    arcon.on('console', (data) => {
+      if (data === 'Connected to BE Master') messages++;
+    });
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    server.ignoreAcknowledgements = true;
+    server.sendMessage('Connected to BE Master');
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(messages).to.equal(1);
+
+    const { duplicateMessages } = arcon.health;
+    expect(duplicateMessages).to.be.greaterThan(0);
+
+    // Checking a sequence id does not count as receiving it again
+    for (let sequence = 0; sequence < 256; sequence++) arcon.hasSeenSequenceId(sequence);
+    expect(arcon.health.duplicateMessages).to.equal(duplicateMessages);
+  });
+
+  it('Backs off between reconnect attempts and gives up after `maxAttempts`', async () => {
+    server.respondToLogin = false;
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      loginTimeout: 100,
+      reconnect: { initialDelay: 50, multiplier: 2, jitter: 0, maxAttempts: 2 },
+    });
+
+    const delays: number[] = [];
+    arcon.on('reconnecting', (_attempt, delay) => delays.push(delay));
+
+    arcon.connect();
+
+    const [attempts] = await once(arcon, 'reconnectFailed');
+
+    expect(attempts).to.equal(2);
+    expect(delays).to.deep.equal([50, 100]);
+  });
+
+  it('Does not reconnect after a deliberate close', async () => {
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'password' });
+
+    let reconnecting = false;
+    arcon.on('reconnecting', () => (reconnecting = true));
+
+    arcon.connect();
+    await once(arcon, 'connected');
+
+    arcon.close();
+
+    expect(reconnecting).to.equal(false);
+  });
+
+  it('Tracks connection health', async () => {
+    arcon.connect();
+
+    await arcon.fetchBans();
+
+    const { packetsSent, packetsReceived, commandLatency } = arcon.health;
+
+    expect(packetsSent).to.be.greaterThan(0);
+    expect(packetsReceived).to.be.greaterThan(0);
+    expect(commandLatency.samples).to.be.greaterThan(0);
+  });
+
+  it('Resolves hostnames again on every reconnect', async () => {
+    const lookups: string[] = [];
+
+    arcon = new Arcon({
+      host: 'rcon.example.com',
+      port: server.port,
+      password: 'password',
+      reconnect: { initialDelay: 10, jitter: 0 },
+      lookup: async (hostname) => {
+        lookups.push(hostname);
+        return { address: '127.0.0.1', family: 4 };
+      },
+    });
+
+    arcon.connect();
+    await once(arcon, 'connected');
+
+    arcon.close('Lost connection.', false);
+    await once(arcon, 'connected');
+
+    expect(lookups).to.deep.equal(['rcon.example.com', 'rcon.example.com']);
+    expect(arcon.address).to.deep.equal({ address: '127.0.0.1', family: 4 });
+  });
+
+  it('Emits an error when the host can not be resolved', async () => {
+    arcon = new Arcon({
+      host: 'missing.example.com',
+      port: server.port,
+      password: 'password',
+      autoReconnect: false,
+      lookup: () => Promise.reject(new Error('getaddrinfo ENOTFOUND missing.example.com')),
+    });
+
+    let error: Error | undefined;
+    arcon.on('error', (e) => (error = e));
+
+    const disconnected = new Promise<string>((resolve) => arcon.once('disconnected', resolve));
+
+    arcon.connect();
+    const reason = await disconnected;
+
+    expect(reason).to.equal('Could not resolve host.');
+    expect(error?.message).to.equal('Could not resolve host missing.example.com.');
+  });
+
+  it('Emits an error when the socket can not connect', async () => {
+    arcon = new Arcon({ host: '127.0.0.1', port: 70_000, password: 'password', autoReconnect: false });
+
+    let error: Error | undefined;
+    arcon.on('error', (e) => (error = e));
+
+    const disconnected = new Promise<string>((resolve) => arcon.once('disconnected', resolve));
+
+    arcon.connect();
+    const reason = await disconnected;
+
+    expect(reason).to.equal('Could not connect.');
+    expect(error?.message).to.equal('Could not connect to 127.0.0.1:70000.');
+  });
+
+  it('Connects over IPv6 and parses IPv6 players', async () => {
+    const v6Server = new MockBeServer({ password: 'password', host: '::1' });
+    await v6Server.start();
+
+    v6Server.playerConnect({ id: 0, name: 'Existing', ip: '2001:db8::1', guid, verified: true, lobby: false });
+
+    arcon = new Arcon({ host: '::1', port: v6Server.port, password: 'password', autoReconnect: false });
+    arcon.on('error', () => {});
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    expect(arcon.players.get(0)?.ip).to.equal('2001:db8::1');
+    expect(arcon.players.get(0)?.family).to.equal('IPv6');
+    expect(arcon.admins.get(0)?.ip).to.equal('::1');
+
+    v6Server.playerConnect({ id: 1, name: 'Joining', ip: 'fe80::1234:2304', guid });
+    v6Server.verifyGuid(1);
+
+    const [player] = await once(arcon, 'playerConnected');
+
+    expect(player.ip).to.equal('fe80::1234:2304');
+    expect(player.family).to.equal('IPv6');
+
+    arcon.close('Test finished.', true);
+    await v6Server.stop();
+  });
+
+  it('Compares the kept players to the player list after reconnecting', async () => {
+    const otherGuid = 'fedcba9876543210fedcba9876543210';
+
+    server.playerConnect({ id: 0, name: 'Staying', guid, verified: true, lobby: false, ping: 20 });
+    server.playerConnect({ id: 1, name: 'Leaving', guid: otherGuid, verified: true, lobby: false });
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      commandInterval: 10,
+      keepPlayersOnReconnect: true,
+      reconnect: { initialDelay: 50, jitter: 0 },
+    });
+    arcon.on('error', () => {});
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    const staying = arcon.players.get(0);
+    const events: string[] = [];
+
+    arcon.on('playerConnected', (player) => events.push(`connected ${player.name}`));
+    arcon.on('playerDisconnected', (player, reason) => events.push(`disconnected ${player.name}: ${reason}`));
+
+    arcon.close('Lost connection.', false);
+
+    expect(arcon.players.size).to.equal(2);
+
+    // Changes while disconnected are not announced to the client
+    server.players.delete(1);
+    server.players.get(0)!.ping = 40;
+    server.players.set(2, {
+      id: 2,
+      name: 'Joined',
+      guid: steamIdToGuid('76561197960265728'),
+      ip: '127.0.0.1',
+      port: 2304,
+      ping: 0,
+      verified: true,
+      lobby: true,
+    });
+
+    const [resync] = await once(arcon, 'resynced');
+
+    expect(resync.retained).to.deep.equal([staying]);
+    expect(resync.joined.map((p: Player) => p.name)).to.deep.equal(['Joined']);
+    expect(resync.left.map((p: Player) => p.name)).to.deep.equal(['Leaving']);
+    expect(events).to.deep.equal(['disconnected Leaving: left during disconnect', 'connected Joined']);
+
+    expect([...arcon.players.keys()]).to.deep.equal([0, 2]);
+    expect(arcon.players.get(0)).to.equal(staying);
+    expect(staying?.ping).to.equal(40);
+  });
+
+  it('Retains kept players listed as unverified after reconnecting', async () => {
+    server.playerConnect({ id: 0, name: 'Existing', guid, verified: true, lobby: false });
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      commandInterval: 10,
+      keepPlayersOnReconnect: true,
+      reconnect: { initialDelay: 50, jitter: 0 },
+    });
+    arcon.on('error', () => {});
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    const existing = arcon.players.get(0);
+    const disconnected: string[] = [];
+
+    arcon.on('playerDisconnected', (_player, reason) => disconnected.push(reason));
+
+    arcon.close('Lost connection.', false);
+    server.players.get(0)!.verified = false;
+
+    const [resync] = await once(arcon, 'resynced');
+
+    expect(resync.retained).to.deep.equal([existing]);
+    expect(resync.left).to.have.length(0);
+    expect(disconnected).to.have.length(0);
+    expect(arcon.players.get(0)).to.equal(existing);
+  });
+
+  it('Clears kept players when closed without reconnecting', async () => {
+    server.playerConnect({ id: 0, name: 'Existing', guid, verified: true, lobby: false });
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      autoReconnect: false,
+      keepPlayersOnReconnect: true,
+    });
+    arcon.on('error', () => {});
+
+    let resynced = false;
+    arcon.on('resynced', () => (resynced = true));
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    arcon.close('Done.', true);
+
+    expect(arcon.players.size).to.equal(0);
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    expect(arcon.players.size).to.equal(1);
+    expect(resynced).to.equal(false);
+  });
+
+  it('Clears kept players when reconnecting fails', async () => {
+    server.playerConnect({ id: 0, name: 'Existing', guid, verified: true, lobby: false });
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      loginTimeout: 100,
+      keepPlayersOnReconnect: true,
+      reconnect: { initialDelay: 10, jitter: 0, maxAttempts: 1 },
+    });
+    arcon.on('error', () => {});
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    server.respondToLogin = false;
+    arcon.close('Lost connection.', false);
+
+    expect(arcon.players.size).to.equal(1);
+
+    await once(arcon, 'reconnectFailed');
+
+    expect(arcon.players.size).to.equal(0);
+  });
+
+  it('Clears players on reconnect by default', async () => {
+    server.playerConnect({ id: 0, name: 'Existing', guid, verified: true, lobby: false });
+
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'password', autoReconnect: false });
+    arcon.on('error', () => {});
+
+    let resynced = false;
+    arcon.on('resynced', () => (resynced = true));
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    arcon.close('Lost connection.', false);
+
+    expect(arcon.players.size).to.equal(0);
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    expect(arcon.players.size).to.equal(1);
+    expect(resynced).to.equal(false);
+  });
+});
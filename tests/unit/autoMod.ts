@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { Arcon } from '../../src/Arcon';
+import { AutoModAction, AutoModerator } from '../../src/Arcon/autoMod';
+import { ConnectingPlayer, Player } from '../../src/Arcon/player';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AutoModerator', () => {
+  let arcon: Arcon;
+  let autoMod: AutoModerator;
+  let actions: AutoModAction[];
+  let commands: string[];
+
+  const createPlayer = (id: number, name = `Player${id}`) =>
+    new Player(`${id}`.padStart(32, '0'), id, '127.0.0.1', name, 0, false, true);
+
+  beforeEach(() => {
+    arcon = new Arcon({ host: '127.0.0.1', port: 2302, password: 'password' });
+    autoMod = new AutoModerator(arcon);
+    actions = [];
+    commands = [];
+
+    autoMod.on('autoModAction', (action) => actions.push(action));
+
+    const record = (command: string) => {
+      commands.push(command);
+      return '';
+    };
+
+    arcon.say = async (target, message) => record(`say ${target} ${message}`);
+    arcon.kick = async (target, reason) => record(`kick ${target} ${reason}`);
+    arcon.ban = async (target, minutes, reason) => record(`ban ${target} ${minutes} ${reason}`);
+  });
+
+  afterEach(() => autoMod.detach());
+
+  it('Acts after consecutive player lists with a high ping', () => {
+    autoMod.addRule({ name: 'ping', type: 'ping', maxPing: 200, updates: 2, reason: 'High ping' });
+
+    const player = createPlayer(1);
+    arcon.players.set(player.id, player);
+
+    const emitPlayers = () => arcon.emit('players', [...arcon.players.values()]);
+
+    player.ping = 300;
+    emitPlayers();
+    player.ping = 100;
+    emitPlayers();
+    player.ping = 300;
+    emitPlayers();
+
+    expect(actions).to.have.length(0);
+
+    // An unchanged ping emits no playerUpdated event, but still counts
+    emitPlayers();
+
+    expect(actions).to.have.length(1);
+    expect(commands).to.deep.equal(['kick 1 High ping']);
+  });
+
+  it('Escalates from warnings to kicks and bans', () => {
+    autoMod.addRule({
+      name: 'language',
+      type: 'chat',
+      patterns: ['badword', /^spam+$/],
+      escalation: ['warn', 'kick', 'ban'],
+      banMinutes: 30,
+      reason: 'Language',
+    });
+
+    const player = createPlayer(2);
+
+    arcon.emit('playerMessage', player, 'Global', 'what a BADWORD');
+    arcon.emit('playerMessage', player, 'Global', 'hello');
+    arcon.emit('playerMessage', player, 'Side', 'spammm');
+    arcon.emit('playerMessage', player, 'Global', 'badword');
+    arcon.emit('playerMessage', player, 'Global', 'badword');
+
+    expect(actions.map((a) => a.action)).to.deep.equal(['warn', 'kick', 'ban', 'ban']);
+    expect(commands[0]).to.equal('say 2 Language');
+    expect(commands[2]).to.equal('ban 2 30 Language');
+  });
+
+  it('Reports failed actions', async () => {
+    const failed = once(autoMod, 'actionFailed');
+
+    arcon.kick = () => Promise.reject(new Error('Connection closed before command completed.'));
+    autoMod.addRule({ name: 'language', type: 'chat', patterns: ['badword'], reason: 'Language' });
+
+    arcon.emit('playerMessage', createPlayer(3), 'Global', 'badword');
+
+    const [error, action] = await failed;
+
+    expect(error.message).to.equal('Connection closed before command completed.');
+    expect(action.action).to.equal('kick');
+  });
+
+  it('Skips exempt players and only reports in dry-run mode', () => {
+    const admin = createPlayer(3, 'Admin');
+    const player = createPlayer(4, 'xXAdminXx');
+
+    autoMod = new AutoModerator(arcon, {
+      dryRun: true,
+      exempt: [admin.guid],
+      rules: [{ name: 'names', type: 'name', patterns: ['admin'], reason: 'Reserved name' }],
+    });
+    autoMod.on('autoModAction', (action) => actions.push(action));
+
+    arcon.emit('playerConnected', admin);
+    arcon.emit('playerConnected', player);
+
+    expect(actions).to.have.length(1);
+    expect(actions[0]).to.include({ rule: 'names', action: 'kick', dryRun: true, player });
+    expect(commands).to.have.length(0);
+  });
+
+  it('Acts on players in the lobby or unverified for too long', async () => {
+    autoMod.addRule({ name: 'lobby', type: 'lobby', maxDuration: 20, reason: 'AFK in lobby' });
+    autoMod.addRule({ name: 'unverified', type: 'unverified', maxDuration: 20, reason: 'Not verified' });
+
+    const lobby = createPlayer(5);
+    const unverified = createPlayer(6);
+    lobby.lobby = true;
+    unverified.verified = false;
+
+    arcon.players.set(lobby.id, lobby);
+    arcon.players.set(unverified.id, unverified);
+
+    arcon.emit('players', [...arcon.players.values()]);
+    expect(actions).to.have.length(0);
+
+    await wait(30);
+    arcon.emit('players', [...arcon.players.values()]);
+
+    expect(commands).to.have.members(['kick 5 AFK in lobby', 'kick 6 Not verified']);
+
+    // Leaving the lobby clears the timer
+    lobby.lobby = false;
+    arcon.emit('players', [...arcon.players.values()]);
+    expect(actions).to.have.length(2);
+  });
+
+  it('Keeps timers while the GUID of a player is calculated', async () => {
+    autoMod.addRule({ name: 'unverified', type: 'unverified', maxDuration: 20, reason: 'Not verified' });
+
+    const connectingPlayers = arcon.connectingPlayers as Map<number, ConnectingPlayer>;
+
+    connectingPlayers.set(7, { id: 7, ip: '127.0.0.1', name: 'Joining' });
+    arcon.emit('players', []);
+
+    connectingPlayers.set(7, { id: 7, ip: '127.0.0.1', name: 'Joining', guid: '7'.padStart(32, '0') });
+    await wait(30);
+    arcon.emit('players', []);
+
+    expect(commands).to.deep.equal(['kick 7 Not verified']);
+  });
+
+  it('Forgets violations of players that left', () => {
+    autoMod.addRule({
+      name: 'language',
+      type: 'chat',
+      patterns: ['badword'],
+      escalation: ['warn', 'kick'],
+      reason: 'Language',
+    });
+
+    const player = createPlayer(8);
+    arcon.players.set(player.id, player);
+    arcon.emit('playerMessage', player, 'Global', 'badword');
+
+    arcon.players.delete(player.id);
+    arcon.emit('playerDisconnected', player, 'disconnected');
+
+    // Players leaving before their GUID is verified are only missing from the next player list
+    const connectingPlayers = arcon.connectingPlayers as Map<number, ConnectingPlayer>;
+    const unverified = createPlayer(9);
+    unverified.verified = false;
+
+    connectingPlayers.set(unverified.id, unverified);
+    arcon.emit('playerMessage', unverified, 'Global', 'badword');
+
+    connectingPlayers.delete(unverified.id);
+    arcon.emit('players', []);
+
+    // Player ids are reused after a server restart
+    arcon.emit('playerMessage', createPlayer(8, 'Other'), 'Global', 'badword');
+    arcon.emit('playerMessage', createPlayer(9, 'Other'), 'Global', 'badword');
+
+    expect(actions.map((a) => a.action)).to.deep.equal(['warn', 'warn', 'warn', 'warn']);
+  });
+});
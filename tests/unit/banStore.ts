@@ -0,0 +1,222 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Arcon } from '../../src/Arcon';
+import {
+  BanManager,
+  JsonFileBanStore,
+  MemoryBanStore,
+  parseBansFile,
+  serializeBansFile,
+} from '../../src/Arcon/banStore';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+
+const guid = '0123456789abcdef0123456789abcdef';
+const otherGuid = 'fedcba9876543210fedcba9876543210';
+
+describe('Ban store', function () {
+  this.timeout(10_000);
+
+  it('Parses and serializes bans.txt', () => {
+    const content = `${guid} -1 Cheating\n127.0.0.1 1700000000 Spam\n`;
+    const bans = parseBansFile(content);
+
+    expect(bans[0]).to.include({ type: 'guid', id: guid, reason: 'Cheating', expiresAt: null });
+    expect(bans[1].expiresAt?.getTime()).to.equal(1700000000 * 1000);
+    expect(serializeBansFile(bans)).to.equal(content);
+    expect(() => parseBansFile('not-a-guid -1')).to.throw();
+  });
+
+  it('Persists bans to a JSON file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'arcon-'));
+    const path = join(dir, 'bans.json');
+
+    try {
+      const store = new JsonFileBanStore(path);
+      const createdAt = new Date(2024, 0, 1);
+
+      await store.add({ type: 'guid', id: guid, reason: 'Cheating', admin: 'Admin', createdAt, expiresAt: null });
+
+      const ban = await new JsonFileBanStore(path).get(guid.toUpperCase());
+
+      expect(ban).to.deep.equal({
+        type: 'guid',
+        id: guid,
+        reason: 'Cheating',
+        admin: 'Admin',
+        createdAt,
+        expiresAt: null,
+      });
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it('Writes concurrent changes one at a time', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'arcon-'));
+    const path = join(dir, 'bans.json');
+
+    try {
+      const store = new JsonFileBanStore(path);
+      const createdAt = new Date();
+      const ids = Array.from({ length: 20 }, (_, i) => `10.0.0.${i}`);
+
+      await Promise.all(ids.map((id) => store.add({ type: 'ip', id, reason: '', createdAt, expiresAt: null })));
+      await store.remove(ids[0]);
+
+      const bans = await new JsonFileBanStore(path).all();
+
+      expect(bans.map((ban) => ban.id)).to.deep.equal(ids.slice(1));
+      expect(await readdir(dir)).to.deep.equal(['bans.json']);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it('Loads the file again after a failed load', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'arcon-'));
+    const path = join(dir, 'bans.json');
+
+    try {
+      const store = new JsonFileBanStore(path);
+
+      await writeFile(path, '[{');
+
+      try {
+        await store.all();
+        expect.fail('Loading should have failed');
+      } catch (error) {
+        expect(error).to.be.instanceOf(SyntaxError);
+      }
+
+      await writeFile(path, '[]');
+      expect(await store.all()).to.deep.equal([]);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  describe('BanManager', () => {
+    let server: MockBeServer;
+    let arcon: Arcon;
+    let store: MemoryBanStore;
+    let manager: BanManager;
+
+    beforeEach(async () => {
+      server = new MockBeServer({ password: 'password' });
+      await server.start();
+
+      arcon = new Arcon({
+        host: '127.0.0.1',
+        port: server.port,
+        password: 'password',
+        autoReconnect: false,
+        commandInterval: 10,
+      });
+      arcon.on('error', () => {});
+
+      store = new MemoryBanStore();
+      manager = new BanManager(arcon, store);
+
+      arcon.connect();
+      await once(arcon, 'players');
+    });
+
+    afterEach(async () => {
+      manager.detach();
+      arcon.close('Test finished.', true);
+      await server.stop();
+    });
+
+    it('Reconciles the store with the server', async () => {
+      const past = new Date(Date.now() - 60_000);
+
+      await store.add({ type: 'guid', id: guid, reason: 'Cheating', createdAt: past, expiresAt: null });
+      await store.add({ type: 'ip', id: '10.0.0.1', reason: 'Expired', createdAt: past, expiresAt: past });
+
+      server.bans.push({ id: '10.0.0.1', minutesLeft: 'expired', reason: 'Expired' });
+      server.bans.push({ id: otherGuid, minutesLeft: 'perm', reason: 'Server ban' });
+
+      const drift = await manager.reconcile();
+
+      expect(drift.missing.map((ban) => ban.id)).to.deep.equal([guid]);
+      expect(drift.expired.map((ban) => ban.id)).to.deep.equal(['10.0.0.1']);
+      expect(drift.unknown.map((ban) => ban.id)).to.deep.equal([otherGuid]);
+      expect(server.bans.map((ban) => ban.id)).to.deep.equal([otherGuid, guid]);
+
+      const after = await manager.reconcile(false);
+      expect(after.missing).to.have.length(0);
+      expect(after.expired).to.have.length(0);
+    });
+
+    it('Kicks banned players once their GUID is verified', async () => {
+      await manager.ban(guid, { minutes: 60, reason: 'Cheating', admin: 'Admin' });
+      server.bans.length = 0;
+
+      server.playerConnect({ id: 1, name: 'Cheater', guid });
+      server.verifyGuid(1);
+
+      const [player, ban] = await once(manager, 'enforced');
+      const [, reason] = await once(arcon, 'playerDisconnected');
+
+      expect(player.guid).to.equal(guid);
+      expect(ban.admin).to.equal('Admin');
+      expect(reason).to.equal('Admin Kick (Banned: Cheating)');
+    });
+
+    it('Kicks banned players already on the server', async () => {
+      manager.detach();
+
+      server.playerConnect({ id: 1, name: 'Cheater', guid, verified: true });
+      await arcon.sendCommandAsync('players');
+
+      await store.add({ type: 'guid', id: guid, reason: 'Cheating', createdAt: new Date(), expiresAt: null });
+      manager = new BanManager(arcon, store);
+
+      const [player] = await once(manager, 'enforced');
+      // Commands run in order, so the kick has completed once this returns
+      await arcon.sendCommandAsync('players');
+
+      expect(player.guid).to.equal(guid);
+
+      // Players verified in the first player list after reconnecting have no playerConnected event
+      server.playerConnect({ id: 2, name: 'Other cheater', guid: otherGuid, verified: true });
+      await store.add({ type: 'guid', id: otherGuid, reason: 'Cheating', createdAt: new Date(), expiresAt: null });
+
+      arcon.close('Reconnecting.', true);
+      arcon.connect();
+
+      const [other] = await once(manager, 'enforced');
+      expect(other.guid).to.equal(otherGuid);
+    });
+
+    it('Bans Steam64 IDs by their GUID', async () => {
+      const ban = await manager.ban('76561197960265728', { reason: 'Cheating' });
+
+      expect(ban.id).to.equal('4fc867abf98b934e9e7eeaf15170258c');
+      expect(server.bans.map((b) => b.id)).to.deep.equal([ban.id]);
+      expect(await store.get(ban.id)).to.deep.equal(ban);
+
+      expect(await manager.unban('76561197960265728')).to.equal(true);
+      expect(server.bans).to.have.length(0);
+    });
+
+    it('Reports failed kicks', async () => {
+      await manager.ban(guid, { reason: 'Cheating' });
+
+      arcon.kick = () => Promise.reject(new Error('Connection closed before command completed.'));
+
+      const failed = once(manager, 'enforceFailed');
+
+      server.playerConnect({ id: 1, name: 'Cheater', guid });
+      server.verifyGuid(1);
+
+      const [error, player] = await failed;
+
+      expect(error.message).to.equal('Connection closed before command completed.');
+      expect(player.guid).to.equal(guid);
+    });
+  });
+});
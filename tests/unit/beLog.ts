@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { createBeLog } from '../../src/Arcon/beLog';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+describe('BeLog', () => {
+  it('Parses script code', () => {
+    const log = createBeLog('Script', 12, '"hint ""Hello"""', guid);
+
+    expect(log.type).to.equal('Script');
+    if (log.type === 'Script') expect(log.code).to.equal('hint ""Hello""');
+  });
+
+  it('Parses vehicle class and position', () => {
+    const log = createBeLog('CreateVehicle', 0, 'B_Quadbike_01_F [1234.5,2345.6,0]', guid);
+
+    expect(log.type).to.equal('CreateVehicle');
+    if (log.type !== 'CreateVehicle') return;
+
+    expect(log.className).to.equal('B_Quadbike_01_F');
+    expect(log.position).to.deep.equal({ x: 1234.5, y: 2345.6, z: 0 });
+  });
+
+  it('Parses variable names and values', () => {
+    const log = createBeLog('PublicVariable Value', 3, '"life_cash" = 500000', guid);
+
+    expect(log.type).to.equal('PublicVariableVal');
+    if (log.type !== 'PublicVariableVal') return;
+
+    expect(log.rawType).to.equal('PublicVariable Value');
+    expect(log.variable).to.equal('life_cash');
+    expect(log.value).to.equal('500000');
+  });
+
+  it('Parses remote executed functions', () => {
+    const log = createBeLog('RemoteExec', 1, '"BIS_fnc_execVM" ["script.sqf"]', guid);
+
+    if (log.type !== 'RemoteExec') expect.fail('Expected a RemoteExec log');
+
+    expect(log.function).to.equal('BIS_fnc_execVM');
+    expect(log.args).to.equal('["script.sqf"]');
+  });
+
+  it('Falls back to `Unknown` for unrecognised filters', () => {
+    const log = createBeLog('Custom', 0, 'something', guid);
+
+    expect(log.type).to.equal('Unknown');
+    expect(log.log).to.equal('something');
+  });
+});
@@ -0,0 +1,273 @@
+import { expect } from 'chai';
+import { randomBytes } from 'crypto';
+import { once } from 'events';
+import { request } from 'http';
+import { Socket, connect } from 'net';
+import { Arcon } from '../../src/Arcon';
+import { Duplex } from 'stream';
+import { ArconBridge } from '../../src/Arcon/bridge';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+import { WebSocketConnection } from '../../src/Arcon/webSocket';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+interface Response {
+  status: number;
+  body: { error?: string; [key: string]: unknown };
+}
+
+const call = (port: number, method: string, path: string, token?: string, body?: unknown) =>
+  new Promise<Response>((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, method, path }, (res) => {
+      const chunks: Buffer[] = [];
+
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(Buffer.concat(chunks).toString()) }));
+    });
+
+    if (token) req.setHeader('Authorization', `Bearer ${token}`);
+
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+  });
+
+// Minimal WebSocket client, reading the unmasked text frames sent by the server.
+const openEvents = (port: number, token: string) =>
+  new Promise<{ socket: Socket; messages: { event: string; args: unknown[] }[]; status: string }>((resolve) => {
+    const socket = connect(port, '127.0.0.1');
+    const messages: { event: string; args: unknown[] }[] = [];
+    let buffer = Buffer.alloc(0);
+    let status = '';
+
+    socket.write(
+      [
+        `GET /events?token=${token} HTTP/1.1`,
+        'Host: 127.0.0.1',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}`,
+        'Sec-WebSocket-Version: 13',
+        '',
+        '',
+      ].join('\r\n'),
+    );
+
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+
+      if (!status) {
+        const end = buffer.indexOf('\r\n\r\n');
+        if (end === -1) return;
+
+        status = buffer.subarray(0, buffer.indexOf('\r\n')).toString();
+        buffer = buffer.subarray(end + 4);
+        resolve({ socket, messages, status });
+      }
+
+      while (buffer.length >= 2) {
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+
+        if (length === 126) {
+          length = buffer.readUInt16BE(2);
+          offset = 4;
+        }
+
+        if (buffer.length < offset + length) return;
+
+        if ((buffer[0] & 0x0f) === 0x1) {
+          messages.push(JSON.parse(buffer.subarray(offset, offset + length).toString()));
+        }
+
+        buffer = buffer.subarray(offset + length);
+      }
+    });
+
+    socket.on('close', () => resolve({ socket, messages, status }));
+  });
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) await new Promise((r) => setTimeout(r, 10));
+};
+
+// Socket recording written data, which only completes writes when `flush` is set
+const createSocket = (flush = true) => {
+  const written: Buffer[] = [];
+
+  const socket = new Duplex({
+    read: () => undefined,
+    write: (chunk: Buffer, _encoding, callback) => {
+      written.push(chunk);
+      if (flush) callback();
+    },
+  });
+
+  return { socket, written };
+};
+
+describe('WebSocketConnection', () => {
+  it('Closes the connection when a frame is too large', async () => {
+    const { socket, written } = createSocket();
+    const client = new WebSocketConnection(socket, { maxPayload: 1024 });
+    const header = Buffer.alloc(14);
+
+    // Masked text frame declaring a 64-bit length, without its payload
+    header.writeUInt8(0x81, 0);
+    header.writeUInt8(0x80 | 127, 1);
+    header.writeBigUInt64BE(BigInt(2 ** 40), 2);
+
+    socket.push(header);
+    await once(client, 'close');
+
+    expect(Buffer.concat(written)).to.deep.equal(Buffer.from([0x88, 0x02, 0x03, 0xf1]));
+  });
+
+  it('Disconnects clients that do not keep up', () => {
+    const { socket } = createSocket(false);
+    const client = new WebSocketConnection(socket, { maxBufferedBytes: 100 });
+
+    client.send('x'.repeat(60));
+    client.send('x'.repeat(60));
+
+    expect(client.closed).to.equal(false);
+
+    client.send('x'.repeat(60));
+
+    expect(client.closed).to.equal(true);
+    expect(socket.destroyed).to.equal(true);
+  });
+});
+
+describe('ArconBridge', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+  let arcon: Arcon;
+  let bridge: ArconBridge;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'password' });
+    await server.start();
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      autoReconnect: false,
+      commandInterval: 10,
+    });
+
+    bridge = new ArconBridge(arcon, {
+      tokens: { reader: ['read'], moderator: ['read', 'kick', 'say'], admin: ['read', 'command', 'ban'] },
+    });
+
+    port = await bridge.listen();
+
+    server.playerConnect({ id: 0, name: 'John Doe', guid, verified: true, lobby: false });
+
+    arcon.connect();
+    await once(arcon, 'players');
+  });
+
+  afterEach(async () => {
+    await bridge.close();
+    arcon.close('Test finished.', true);
+    await server.stop();
+  });
+
+  it('Authenticates requests with tokens and scopes', async () => {
+    expect((await call(port, 'GET', '/players')).status).to.equal(401);
+    expect((await call(port, 'GET', '/players', 'unknown')).status).to.equal(401);
+
+    const forbidden = await call(port, 'POST', '/kick', 'reader', { player: 0 });
+
+    expect(forbidden).to.deep.equal({ status: 403, body: { error: 'Missing scope kick.' } });
+    expect(server.players.size).to.equal(1);
+
+    expect((await call(port, 'GET', '/unknown', 'reader')).status).to.equal(404);
+  });
+
+  it('Serves players, missions and bans', async () => {
+    const players = await call(port, 'GET', '/players', 'reader');
+
+    expect(players.status).to.equal(200);
+    expect(players.body).to.have.length(1);
+    expect(players.body).to.have.nested.property('[0].name', 'John Doe');
+
+    server.missions.push('co_10_escape.altis.pbo');
+
+    const missions = await call(port, 'GET', '/missions', 'reader');
+
+    expect(missions).to.deep.equal({ status: 200, body: ['co_10_escape.altis.pbo'] });
+
+    await arcon.addBan(guid, 0, 'Cheating');
+
+    const bans = await call(port, 'GET', '/bans', 'reader');
+
+    expect(bans.body).to.have.nested.property('[0].id', guid);
+
+    const status = await call(port, 'GET', '/status', 'reader');
+
+    expect(status.body).to.include({ state: 'connected' });
+  });
+
+  it('Kicks, bans, messages and sends commands', async () => {
+    expect((await call(port, 'POST', '/say', 'moderator', { message: 'Hello' })).status).to.equal(200);
+    expect((await call(port, 'POST', '/kick', 'moderator', { player: 'John' })).status).to.equal(400);
+    expect((await call(port, 'POST', '/kick', 'moderator', '{')).status).to.equal(400);
+
+    const kick = await call(port, 'POST', '/kick', 'moderator', { player: 0, reason: 'Idle' });
+
+    expect(kick.status).to.equal(200);
+    expect(server.players.size).to.equal(0);
+
+    const ban = await call(port, 'POST', '/ban', 'admin', { id: guid, minutes: 0, reason: 'Cheating' });
+
+    expect(ban.status).to.equal(200);
+    expect(server.bans).to.have.length(1);
+
+    const command = await call(port, 'POST', '/command', 'admin', { command: 'bans' });
+
+    expect(command.status).to.equal(200);
+    expect(command.body.response).to.include(guid);
+  });
+
+  it('Rejects invalid command input as a client error', async () => {
+    const badId = await call(port, 'POST', '/ban', 'admin', { id: 'not-a-guid' });
+
+    expect(badId).to.deep.equal({ status: 400, body: { error: 'Invalid GUID, Steam64 ID or IP address: not-a-guid' } });
+    expect((await call(port, 'POST', '/ban', 'admin', { player: 0, minutes: 1.5 })).status).to.equal(400);
+    expect((await call(port, 'POST', '/say', 'moderator', { message: 'Hello\nWorld' })).status).to.equal(400);
+    expect((await call(port, 'POST', '/kick', 'moderator', { player: 0, reason: 'AFK\r' })).status).to.equal(400);
+
+    expect(server.bans).to.have.length(0);
+    expect(server.players.size).to.equal(1);
+
+    // Failures of the server are still reported as 502
+    expect((await call(port, 'POST', '/command', 'admin', { command: 'unknownCommand' })).status).to.equal(502);
+  });
+
+  it('Streams events over WebSocket', async () => {
+    const rejected = await openEvents(port, 'unknown');
+
+    expect(rejected.status).to.equal('HTTP/1.1 401 Unauthorized.');
+
+    const { socket, messages, status } = await openEvents(port, 'reader');
+
+    expect(status).to.equal('HTTP/1.1 101 Switching Protocols');
+
+    server.chat(0, 'Global', 'Hello');
+    server.playerDisconnect(0);
+
+    await waitFor(() => messages.some((m) => m.event === 'playerDisconnected'));
+
+    const events = messages.map((m) => m.event);
+
+    expect(events[0]).to.equal('state');
+    expect(events).to.include.members(['console', 'playerMessage', 'playerDisconnected']);
+    expect(messages.find((m) => m.event === 'playerMessage')).to.have.nested.property('args[0].name', 'John Doe');
+
+    socket.destroy();
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { Arcon } from '../../src/Arcon';
+import { ChatCommandContext, ChatCommandRouter, parseArgs } from '../../src/Arcon/chatCommands';
+import { Player } from '../../src/Arcon/player';
+
+describe('ChatCommandRouter', () => {
+  const admin = new Player('0123456789abcdef0123456789abcdef', 0, '127.0.0.1', 'Admin', 0, false, true);
+  const player = new Player('fedcba9876543210fedcba9876543210', 1, '127.0.0.1', 'Player', 0, false, true);
+
+  let arcon: Arcon;
+  let router: ChatCommandRouter;
+  let replies: string[];
+
+  beforeEach(() => {
+    arcon = new Arcon({ host: '127.0.0.1', port: 2302, password: 'password' });
+    router = new ChatCommandRouter(arcon, { groups: { admin: [admin.guid] } });
+    replies = [];
+
+    arcon.say = async (_target, message) => {
+      replies.push(message);
+      return '';
+    };
+  });
+
+  it('Parses quoted arguments', () => {
+    expect(parseArgs('kick "John Doe" \'for spamming\' now')).to.deep.equal([
+      'kick',
+      'John Doe',
+      'for spamming',
+      'now',
+    ]);
+  });
+
+  it('Routes prefixed messages to handlers', async () => {
+    let context: ChatCommandContext | undefined;
+    router.register({ name: 'report', handler: (ctx) => void (context = ctx) });
+
+    arcon.emit('playerMessage', player, 'Global', '!report "Bad Player" cheating');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(context?.player).to.equal(player);
+    expect(context?.args).to.deep.equal(['Bad Player', 'cheating']);
+  });
+
+  it('Restricts commands to permission groups and channels', async () => {
+    let calls = 0;
+    router.register({ name: 'lock', groups: ['admin'], channels: ['Side'], handler: () => void calls++ });
+
+    arcon.emit('playerMessage', player, 'Side', '!lock');
+    arcon.emit('playerMessage', admin, 'Global', '!lock');
+    arcon.emit('playerMessage', admin, 'Side', '!lock');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(calls).to.equal(1);
+    expect(replies).to.have.length(1);
+  });
+
+  it('Applies per-player cooldowns', async () => {
+    let calls = 0;
+    router.register({ name: 'ping', cooldown: 60_000, handler: () => void calls++ });
+
+    arcon.emit('playerMessage', player, 'Global', '!ping');
+    arcon.emit('playerMessage', player, 'Global', '!ping');
+    arcon.emit('playerMessage', admin, 'Global', '!ping');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(calls).to.equal(2);
+  });
+
+  it('Generates help text for available commands', async () => {
+    router.register({ name: 'rules', description: 'Shows the rules.', handler: () => {} });
+    router.register({ name: 'lock', groups: ['admin'], handler: () => {} });
+
+    arcon.emit('playerMessage', player, 'Global', '!help');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(replies).to.deep.equal(['!help - Lists available commands.', '!rules - Shows the rules.']);
+  });
+
+  it('Reports failed commands', async () => {
+    const failed = once(router, 'commandFailed');
+
+    arcon.say = () => Promise.reject(new Error('Connection closed before command completed.'));
+    router.register({ name: 'rules', handler: ({ reply }) => reply('Be nice.').then(() => {}) });
+
+    arcon.emit('playerMessage', player, 'Global', '!rules');
+
+    const [error, context] = await failed;
+
+    expect(error.message).to.equal('Connection closed before command completed.');
+    expect(context.name).to.equal('rules');
+  });
+});
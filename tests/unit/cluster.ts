@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { ConnectionState } from '../../src/Arcon/client';
+import { ArconCluster } from '../../src/Arcon/cluster';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+describe('ArconCluster', function () {
+  this.timeout(10_000);
+
+  let servers: MockBeServer[];
+  let cluster: ArconCluster;
+
+  beforeEach(async () => {
+    servers = [new MockBeServer({ password: 'password' }), new MockBeServer({ password: 'password' })];
+    await Promise.all(servers.map((server) => server.start()));
+
+    cluster = new ArconCluster(
+      servers.map((server, i) => ({
+        id: `server${i}`,
+        host: '127.0.0.1',
+        port: server.port,
+        password: 'password',
+        autoReconnect: false,
+      })),
+    );
+
+    cluster.on('error', () => {});
+  });
+
+  afterEach(async () => {
+    cluster.close();
+    await Promise.all(servers.map((server) => server.stop()));
+  });
+
+  it('Re-emits events tagged with the server id', async () => {
+    servers[1].playerConnect({ id: 0, name: 'Player', guid, verified: true });
+
+    cluster.connect();
+
+    const [serverId, players] = await once(cluster, 'players');
+
+    expect(serverId).to.be.oneOf(['server0', 'server1']);
+    expect(players).to.have.length(serverId === 'server1' ? 1 : 0);
+  });
+
+  it('Re-emits errors with the error first', () => {
+    const errors: [Error, string][] = [];
+    cluster.on('error', (error, serverId) => errors.push([error, serverId]));
+
+    const error = new Error('Unknown message type');
+    cluster.get('server1')?.emit('error', error);
+
+    expect(errors).to.deep.equal([[error, 'server1']]);
+    expect(cluster.health().find((health) => health.id === 'server1')?.errors).to.equal(1);
+  });
+
+  it('Finds players across servers and reports health', async () => {
+    servers[1].playerConnect({ id: 0, name: 'Player', guid, verified: true });
+
+    cluster.connect();
+
+    await Promise.all([...cluster.servers.values()].map((arcon) => once(arcon, 'players')));
+
+    expect(cluster.findPlayerByGuid(guid)?.serverId).to.equal('server1');
+    expect(cluster.health().every((health) => health.state === ConnectionState.CONNECTED)).to.equal(true);
+  });
+
+  it('Broadcasts commands to a subset of servers', async () => {
+    const commands: string[] = [];
+    servers[0].on('command', (command) => commands.push(command));
+
+    cluster.connect();
+
+    const results = await cluster.broadcast('say -1 Hello', ['server0']);
+
+    expect(results.get('server0')?.status).to.equal('fulfilled');
+    expect(commands).to.include('say -1 Hello');
+  });
+});
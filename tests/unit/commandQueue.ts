@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import ArconError from '../../src/Arcon/ArconError';
+import { CommandDropReason, CommandPriority, CommandQueue } from '../../src/Arcon/commandQueue';
+
+describe('CommandQueue', () => {
+  let dropped: [string, CommandDropReason][];
+  let queue: CommandQueue;
+
+  beforeEach(() => {
+    dropped = [];
+    queue = new CommandQueue(3, (queued, reason) => dropped.push([queued.command, reason]));
+  });
+
+  it('Orders commands by priority without displacing the in-flight command', () => {
+    queue.push('say -1 first', {}, false);
+    queue.inFlight = true;
+
+    queue.push('say -1 second', { priority: CommandPriority.LOW }, false);
+    queue.push('kick 1', { priority: CommandPriority.HIGH }, false);
+
+    expect(queue.shift()?.command).to.equal('say -1 first');
+    expect(queue.shift()?.command).to.equal('kick 1');
+    expect(queue.shift()?.command).to.equal('say -1 second');
+  });
+
+  it('Cancels queued commands', async () => {
+    const handle = queue.push('say -1 Hello', {}, false);
+
+    expect(handle.cancel()).to.equal(true);
+    expect(queue.length).to.equal(0);
+
+    try {
+      await handle.response;
+      expect.fail('Response should have been rejected');
+    } catch (error) {
+      expect(error).to.be.instanceOf(ArconError);
+    }
+  });
+
+  it('Does not cancel the in-flight command', () => {
+    const handle = queue.push('players', {}, false);
+    queue.inFlight = true;
+
+    expect(handle.cancel()).to.equal(false);
+  });
+
+  it('Reuses identical commands when de-duplicating', () => {
+    const first = queue.push('players', { dedupe: true }, false);
+    const second = queue.push('players', { dedupe: true }, false);
+
+    expect(second).to.equal(first);
+    expect(queue.length).to.equal(1);
+  });
+
+  it('Raises the priority of reused commands that have not been sent', () => {
+    queue.push('players', { priority: CommandPriority.LOW }, false);
+    queue.inFlight = true;
+
+    queue.push('bans', { priority: CommandPriority.LOW, dedupe: true }, false);
+    queue.push('missions', {}, false);
+    queue.push('bans', { priority: CommandPriority.HIGH, dedupe: true }, false);
+
+    // The in-flight command keeps its place and priority
+    queue.push('players', { priority: CommandPriority.HIGH, dedupe: true }, false);
+
+    expect(queue.head?.priority).to.equal(CommandPriority.LOW);
+    expect(queue.shift()?.command).to.equal('players');
+    expect(queue.shift()?.command).to.equal('bans');
+    expect(queue.shift()?.command).to.equal('missions');
+  });
+
+  it('Drops lower priority commands when full', () => {
+    queue.push('say -1 a', { priority: CommandPriority.LOW }, false);
+    queue.push('say -1 b', { priority: CommandPriority.LOW }, false);
+    queue.push('say -1 c', { priority: CommandPriority.LOW }, false);
+    queue.push('kick 1', { priority: CommandPriority.HIGH }, false);
+    queue.push('say -1 d', { priority: CommandPriority.LOW }, false);
+
+    expect(queue.head?.command).to.equal('kick 1');
+    expect(dropped).to.deep.equal([
+      ['say -1 c', 'queueFull'],
+      ['say -1 d', 'queueFull'],
+    ]);
+  });
+
+  it('Drops expired commands', () => {
+    queue.push('say -1 Hello', { expiresIn: -1 }, false);
+    queue.push('players', {}, false);
+
+    queue.dropExpired();
+
+    expect(queue.head?.command).to.equal('players');
+    expect(dropped).to.deep.equal([['say -1 Hello', 'expired']]);
+  });
+});
@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+import ArconError from '../../src/Arcon/ArconError';
+import { addBanCommand, banCommand, kickCommand, missionCommand, sayCommand } from '../../src/Arcon/commands';
+import { Player } from '../../src/Arcon/player';
+
+describe('Commands', () => {
+  const player = new Player('0123456789abcdef0123456789abcdef', 3, '127.0.0.1', 'Player', 0, false, true);
+
+  it('Formats commands for a `Player` or player id', () => {
+    expect(kickCommand(player, 'Bye')).to.equal('kick 3 Bye');
+    expect(banCommand(3, 60, 'Cheating')).to.equal('ban 3 60 Cheating');
+    expect(sayCommand(-1, 'Hello')).to.equal('say -1 Hello');
+  });
+
+  it('Rejects invalid GUIDs and IP addresses', () => {
+    expect(() => addBanCommand('not-a-guid')).to.throw(ArconError);
+    expect(addBanCommand('127.0.0.1', 0)).to.equal('addBan 127.0.0.1 0');
+  });
+
+  it('Sends GUIDs in lowercase', () => {
+    expect(addBanCommand(player.guid.toUpperCase(), 0, 'Cheating')).to.equal(`addBan ${player.guid} 0 Cheating`);
+  });
+
+  it('Rejects invalid ban durations', () => {
+    expect(() => banCommand(player, -1)).to.throw(ArconError);
+    expect(() => banCommand(player, 1.5)).to.throw(ArconError);
+  });
+
+  it('Rejects text that would break the command line', () => {
+    expect(() => sayCommand(player, 'Hello\nkick 1')).to.throw(ArconError);
+    expect(() => missionCommand('My Mission.Altis')).to.throw(ArconError);
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { Arcon } from '../../src/Arcon';
+import { LogLevel, Logger, formatDatagram, hexDump } from '../../src/Arcon/diagnostics';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+import { CommandPacketPart, LoginPacket, Packet, PacketTypes } from '../../src/Arcon/packet';
+
+const createMemoryLogger = () => {
+  const entries: { level: LogLevel; message: string }[] = [];
+  const write = (level: LogLevel) => (message: string) => {
+    entries.push({ level, message });
+  };
+
+  const logger: Logger = { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+
+  return { logger, entries };
+};
+
+describe('Packet tracing', () => {
+  it('Dumps buffers as hex and ASCII', () => {
+    expect(hexDump(Buffer.from('players\x00'))).to.equal(
+      `00000000  70 6c 61 79 65 72 73 00${' '.repeat(24)}  |players.|`,
+    );
+  });
+
+  it('Decodes command headers and multi-part responses', () => {
+    const command = Packet.create(PacketTypes.Command, Buffer.from('players'), 4).toBuffer();
+    const part = CommandPacketPart.create(PacketTypes.Command, Buffer.from('abc'), 7, 3, 1).toBuffer();
+    const message = Packet.create(PacketTypes.Message, null, 9).toBuffer();
+
+    expect(formatDatagram('out', command).split('\n')[0]).to.equal('-> Command seq=4 (7 bytes)');
+    expect(formatDatagram('in', part).split('\n')).to.deep.equal([
+      '<- Command seq=7 part=2/3 (3 bytes)',
+      `00000000  61 62 63${' '.repeat(39)}  |abc|`,
+    ]);
+    expect(formatDatagram('out', message)).to.equal('-> Message seq=9 (0 bytes)');
+    expect(formatDatagram('in', Buffer.from('XX'))).to.match(/^<- invalid datagram \(2 bytes\)/);
+  });
+
+  it('Redacts the password of login packets', () => {
+    const trace = formatDatagram('out', LoginPacket.create('hunter2').toBuffer());
+
+    expect(trace).to.equal('-> Login (password redacted)');
+    expect(formatDatagram('in', LoginPacket.create(Buffer.from([0x01])).toBuffer())).to.equal('<- Login succeeded');
+  });
+});
+
+describe('Arcon logging', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+  let arcon: Arcon;
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'hunter2' });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    arcon.close('Test finished.', true);
+    await server.stop();
+  });
+
+  it('Logs connection transitions, commands and packet traces', async () => {
+    const { logger, entries } = createMemoryLogger();
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'hunter2',
+      autoReconnect: false,
+      commandInterval: 10,
+      logger,
+      tracePackets: true,
+    });
+
+    arcon.connect();
+    await once(arcon, 'players');
+    await arcon.sendCommandAsync('missions');
+
+    const messages = entries.map((entry) => entry.message);
+
+    expect(messages).to.include.members(['Sending login', '-> Login (password redacted)', '<- Login succeeded']);
+    expect(entries).to.deep.include({ level: 'info', message: 'Logged in' });
+    expect(messages.some((message) => /^Sending command \d+: missions$/.test(message))).to.equal(true);
+    expect(messages.some((message) => /^Command \d+ answered in \d+ms$/.test(message))).to.equal(true);
+    expect(messages.some((message) => message.startsWith('<- Command seq='))).to.equal(true);
+
+    const hexPassword = Buffer.from('hunter2').toString('hex').match(/../g)?.join(' ') ?? '';
+
+    expect(messages.some((message) => message.includes('hunter2') || message.includes(hexPassword))).to.equal(false);
+
+    arcon.close('Done.', true);
+
+    expect(entries[entries.length - 1]).to.deep.equal({ level: 'info', message: 'Disconnected: Done.' });
+  });
+
+  it('Logs failed logins as errors without tracing by default', async () => {
+    const { logger, entries } = createMemoryLogger();
+
+    arcon = new Arcon({ host: '127.0.0.1', port: server.port, password: 'wrong', autoReconnect: false, logger });
+    arcon.on('error', () => undefined);
+
+    const disconnected = new Promise((resolve) => arcon.once('disconnected', resolve));
+
+    arcon.connect();
+    await disconnected;
+
+    expect(entries).to.deep.include({ level: 'error', message: 'Login failed, invalid password' });
+    expect(entries.some((entry) => /^(<-|->)/.test(entry.message))).to.equal(false);
+  });
+});
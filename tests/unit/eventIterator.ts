@@ -0,0 +1,201 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { Arcon } from '../../src/Arcon';
+import { BeLog } from '../../src/Arcon/beLog';
+import { EmittedEvent, EventIterator } from '../../src/Arcon/eventIterator';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+import { Player } from '../../src/Arcon/player';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+const collect = async <T>(iterator: AsyncIterable<T>) => {
+  const values: T[] = [];
+  for await (const value of iterator) values.push(value);
+  return values;
+};
+
+describe('EventIterator', () => {
+  it('Drops the oldest values when full', async () => {
+    const iterator = new EventIterator<number>({ bufferSize: 2 });
+
+    [1, 2, 3].forEach((value) => iterator.push(value));
+    iterator.end();
+
+    expect(await collect(iterator)).to.deep.equal([2, 3]);
+    expect(iterator.dropped).to.equal(1);
+  });
+
+  it('Drops the newest values when full', async () => {
+    const iterator = new EventIterator<number>({ bufferSize: 2, overflow: 'dropNewest' });
+
+    [1, 2, 3].forEach((value) => iterator.push(value));
+    iterator.end();
+
+    expect(await collect(iterator)).to.deep.equal([1, 2]);
+  });
+
+  it('Throws after the buffered values when overflowing with the error policy', async () => {
+    const iterator = new EventIterator<number>({ bufferSize: 2, overflow: 'error' });
+    const values: number[] = [];
+
+    [1, 2, 3, 4].forEach((value) => iterator.push(value));
+
+    try {
+      for await (const value of iterator) values.push(value);
+      expect.fail('Expected an overflow error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('Event buffer overflowed.');
+    }
+
+    expect(values).to.deep.equal([1, 2]);
+  });
+
+  it('Hands values to a waiting consumer', async () => {
+    const iterator = new EventIterator<number>({ bufferSize: 1 });
+    const next = iterator.next();
+
+    iterator.push(1);
+    iterator.push(2);
+
+    expect(await next).to.deep.equal({ value: 1, done: false });
+    expect(await iterator.next()).to.deep.equal({ value: 2, done: false });
+  });
+});
+
+describe('Arcon event iterators and streams', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+  let arcon: Arcon;
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'password' });
+    await server.start();
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      autoReconnect: false,
+      commandInterval: 10,
+    });
+
+    server.playerConnect({ id: 0, name: 'John Doe', guid, verified: true, lobby: false });
+
+    arcon.connect();
+    await once(arcon, 'players');
+  });
+
+  afterEach(async () => {
+    arcon.close('Test finished.', true);
+    await server.stop();
+  });
+
+  it('Iterates over events until the connection is closed', async () => {
+    const iterator = arcon.iterate<[BeLog]>('beLog');
+    const logs = collect(iterator);
+
+    server.beLog('Script', 0, 3, 'hint "a"');
+    server.beLog('Script', 0, 4, 'hint "b"');
+    await once(arcon, 'beLog');
+    await once(arcon, 'beLog');
+
+    arcon.close('Done.', true);
+
+    expect((await logs).map(([log]) => log.filter)).to.deep.equal([3, 4]);
+  });
+
+  it('Keeps iterating across unexpected disconnects', async () => {
+    const iterator = arcon.iterate('disconnected');
+
+    arcon.close('Lost connection.', false);
+    arcon.cancelReconnect();
+
+    expect(iterator.done).to.equal(false);
+    expect(await iterator.next()).to.deep.equal({ value: ['Lost connection.', false], done: false });
+
+    arcon.close('Done.', true);
+
+    expect(await iterator.next()).to.deep.equal({ value: undefined, done: true });
+  });
+
+  it('Ends iterators and streams when reconnecting fails', async () => {
+    arcon.close('Test finished.', true);
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      loginTimeout: 100,
+      reconnect: { initialDelay: 10, jitter: 0, maxAttempts: 1 },
+    });
+    arcon.on('error', () => {});
+
+    arcon.connect();
+    await once(arcon, 'connected');
+
+    const iterator = arcon.iterate('reconnectFailed');
+    const stream = arcon.createEventStream().resume();
+
+    server.respondToLogin = false;
+    arcon.close('Lost connection.', false);
+
+    expect(await iterator.next()).to.deep.equal({ value: [1], done: false });
+    expect(await iterator.next()).to.deep.equal({ value: undefined, done: true });
+
+    await once(stream, 'end');
+  });
+
+  it('Waits for events matching a predicate', async () => {
+    const message = arcon.waitFor<[Player, string, string]>('playerMessage', {
+      predicate: (_player, _channel, text) => text === 'second',
+      timeout: 2000,
+    });
+
+    server.chat(0, 'Global', 'first');
+    server.chat(0, 'Global', 'second');
+
+    const [player, channel, text] = await message;
+
+    expect(player.name).to.equal('John Doe');
+    expect([channel, text]).to.deep.equal(['Global', 'second']);
+  });
+
+  it('Rejects waiting on timeout and on close', async () => {
+    try {
+      await arcon.waitFor('playerMessage', { timeout: 20 });
+      expect.fail('Expected a timeout');
+    } catch (error) {
+      expect((error as Error).message).to.equal('Timed out waiting for playerMessage.');
+    }
+
+    const waiting = arcon.waitFor('playerMessage');
+    arcon.close('Done.', true);
+
+    try {
+      await waiting;
+      expect.fail('Expected the wait to be rejected');
+    } catch (error) {
+      expect((error as Error).message).to.equal('Connection closed while waiting for playerMessage.');
+    }
+  });
+
+  it('Streams events and console output', async () => {
+    const events: EmittedEvent[] = [];
+    const lines: string[] = [];
+
+    const eventStream = arcon.createEventStream().on('data', (event: EmittedEvent) => events.push(event));
+    const consoleStream = arcon.createConsoleStream().on('data', (chunk: Buffer) => lines.push(chunk.toString()));
+
+    server.chat(0, 'Global', 'Hello');
+    await once(arcon, 'playerMessage');
+
+    arcon.close('Done.', true);
+
+    await Promise.all([once(eventStream, 'end'), once(consoleStream, 'end')]);
+
+    expect(events.map((e) => e.event)).to.include.ordered.members(['console', 'playerMessage', 'disconnected']);
+    expect(events.find((e) => e.event === 'disconnected')?.args).to.deep.equal(['Done.', true]);
+    expect(lines.join('')).to.equal('(Global) John Doe: Hello\n');
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { createBeLog } from '../../src/Arcon/beLog';
+import { FilterLearner, findFilterRule, parseFilterFile, serializeFilterFile } from '../../src/Arcon/filters';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+const scripts = `//new
+5 "addAction" !="\\"Open Menu\\"" !=safeAction
+// Comment
+1 createUnit
+
+7 "execVM" ="client\\\\"
+`;
+
+describe('Filters', () => {
+  it('Parses rules, levels and exceptions', () => {
+    const rules = parseFilterFile(scripts);
+
+    expect(rules).to.have.length(3);
+    expect(rules[0]).to.deep.equal({
+      index: 0,
+      level: 5,
+      pattern: 'addAction',
+      exceptions: [
+        { operator: '!=', value: '\\"Open Menu\\"' },
+        { operator: '!=', value: 'safeAction' },
+      ],
+    });
+    expect(rules[1].pattern).to.equal('createUnit');
+    expect(rules[2].exceptions[0].operator).to.equal('=');
+  });
+
+  it('Serialises rules back to the filter format', () => {
+    const rules = parseFilterFile(scripts);
+
+    expect(parseFilterFile(serializeFilterFile(rules))).to.deep.equal(rules);
+  });
+
+  it('Maps a beLog back to its rule', () => {
+    const rules = parseFilterFile(scripts);
+    const log = createBeLog('Script', 1, 'createUnit "B_Soldier_F"', guid);
+
+    expect(findFilterRule(rules, log)?.pattern).to.equal('createUnit');
+  });
+
+  it('Proposes minimal exceptions from collected logs', () => {
+    const rules = parseFilterFile(scripts);
+    const learner = new FilterLearner('Script');
+
+    learner.record(createBeLog('Script', 0, 'player addAction ["Menu", {}]', guid));
+    learner.record(createBeLog('Script', 0, 'x = player addAction ["Menu", {}]; y = 1', guid));
+    learner.record(createBeLog('Script', 0, 'player addAction ["safeAction"]', guid));
+    learner.record(createBeLog('CreateVehicle', 0, 'B_Quadbike_01_F', guid));
+
+    const proposals = learner.propose(rules);
+
+    expect(proposals.get(0)).to.deep.equal([{ operator: '!=', value: 'player addAction \\[\\"Menu\\", \\{\\}\\]' }]);
+    expect(learner.apply(rules)[0].exceptions).to.have.length(3);
+  });
+});
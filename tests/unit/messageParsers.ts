@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { Arcon } from '../../src/Arcon';
+import { MessageParserPlugin, MessageParserRegistry } from '../../src/Arcon/messageParsers';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+interface Trade {
+  player: string;
+  item: string;
+  price: number;
+}
+
+const exilePlugin: MessageParserPlugin = {
+  name: 'exile',
+  parsers: [
+    {
+      name: 'exileTrade',
+      match: /^\[Exile\] (.+) sold (.+) for (\d+) poptabs$/g,
+      transform: ([, player, item, price]): Trade => ({ player, item, price: parseInt(price) }),
+    },
+    { name: 'exileDebug', match: /^\[Exile\] DEBUG/, ignore: true },
+  ],
+};
+
+describe('MessageParserRegistry', () => {
+  it('Orders parsers by priority, then registration', () => {
+    const registry = new MessageParserRegistry([
+      { name: 'low', match: /a/, priority: -1 },
+      { name: 'first', match: /a/ },
+      { name: 'second', match: /a/ },
+      { name: 'high', match: /a/, priority: 5 },
+    ]);
+
+    expect([...registry].map((p) => p.name)).to.deep.equal(['high', 'first', 'second', 'low']);
+    expect(registry.find('a')?.name).to.equal('high');
+
+    expect(registry.unregister('high')).to.equal(true);
+    expect(registry.find('a')?.name).to.equal('first');
+  });
+
+  it('Transforms matches and rejects duplicate names', () => {
+    const registry = new MessageParserRegistry().use(exilePlugin);
+
+    // Global patterns are matched without keeping state between messages
+    for (let i = 0; i < 2; i++) {
+      expect(registry.parse('[Exile] John sold Rifle for 250 poptabs')?.payload).to.deep.equal({
+        player: 'John',
+        item: 'Rifle',
+        price: 250,
+      });
+    }
+
+    expect(registry.parse('Something else')).to.equal(undefined);
+    expect(() => registry.register({ name: 'exileTrade', match: /x/ })).to.throw('already registered');
+  });
+});
+
+describe('Arcon custom message parsers', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+  let arcon: Arcon;
+  let errors: Error[];
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'password' });
+    await server.start();
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      autoReconnect: false,
+      commandInterval: 10,
+      parsers: [exilePlugin],
+    });
+
+    errors = [];
+    arcon.on('error', (error) => errors.push(error));
+
+    server.playerConnect({ id: 0, name: 'John Doe', guid, verified: true, lobby: false });
+
+    arcon.connect();
+    await once(arcon, 'players');
+  });
+
+  afterEach(async () => {
+    arcon.close('Test finished.', true);
+    await server.stop();
+  });
+
+  it('Emits custom events and suppresses ignored messages', async () => {
+    const trade = arcon.waitFor<[Trade, string]>('exileTrade', { timeout: 2000 });
+
+    server.sendMessage('[Exile] DEBUG tick');
+    server.sendMessage('[Exile] John sold Rifle for 250 poptabs');
+
+    const [payload, message] = await trade;
+
+    expect(payload).to.deep.equal({ player: 'John', item: 'Rifle', price: 250 });
+    expect(message).to.equal('[Exile] John sold Rifle for 250 poptabs');
+
+    server.sendMessage('Unparsed message');
+    await arcon.waitFor('error', { timeout: 2000 });
+
+    expect(errors.map((e) => e.message)).to.deep.equal(['Unknown message type: Unparsed message']);
+  });
+
+  it('Only takes over built-in messages with a higher priority', async () => {
+    arcon.parsers.register({ name: 'chatCopy', match: /^\(Global\)/ });
+    arcon.parsers.register({ name: 'sideChat', match: /^\(Side\) (.+): (.+)$/, priority: 1, event: 'sideChat' });
+
+    const sideChat = arcon.waitFor<[string]>('sideChat', { timeout: 2000 });
+    const playerMessage = arcon.waitFor('playerMessage', { timeout: 2000 });
+
+    server.chat(0, 'Side', 'Over here');
+    server.chat(0, 'Global', 'Hello');
+
+    expect((await sideChat)[0]).to.equal('(Side) John Doe: Over here');
+    expect((await playerMessage)[2]).to.equal('Hello');
+  });
+
+  it('Emits transform errors', async () => {
+    arcon.parsers.register({
+      name: 'broken',
+      match: /^Broken/,
+      transform: () => {
+        throw new Error('Bad format');
+      },
+    });
+
+    server.sendMessage('Broken message');
+    await arcon.waitFor('error', { timeout: 2000 });
+
+    expect(errors[0].message).to.equal('Message parser broken failed: Bad format');
+  });
+});
@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { Arcon } from '../../src/Arcon';
+import { ArconMetrics } from '../../src/Arcon/metrics';
+import { Player } from '../../src/Arcon/player';
+
+describe('ArconMetrics', () => {
+  const guid = '0123456789abcdef0123456789abcdef';
+
+  let arcon: Arcon;
+  let metrics: ArconMetrics;
+
+  beforeEach(() => {
+    arcon = new Arcon({ host: '127.0.0.1', port: 2302, password: 'password' });
+    metrics = new ArconMetrics(arcon, { labels: { server: 'altis' }, latencyBuckets: [0.05, 0.1] });
+  });
+
+  it('Reports player counts and pings', () => {
+    arcon.emit('players', [
+      new Player(guid, 0, '127.0.0.1', 'Lobby', 40, true, true),
+      new Player(guid, 1, '127.0.0.1', 'Playing', 80, false, true),
+    ]);
+
+    const output = metrics.collect();
+
+    expect(output).to.include('arcon_players{server="altis",state="lobby"} 1');
+    expect(output).to.include('arcon_players{server="altis",state="ingame"} 1');
+    expect(output).to.include('arcon_player_ping_average{server="altis"} 60');
+    expect(output).to.include('arcon_player_ping_max{server="altis"} 80');
+  });
+
+  it('Counts beLogs and kicks by label', () => {
+    arcon.emit('beLog', { type: 'Script', filter: 3, log: '', guid });
+    arcon.emit('beLog', { type: 'Script', filter: 3, log: '', guid });
+    const kick = (reason: string) =>
+      arcon.emit('playerDisconnected', new Player(guid, 0, '127.0.0.1', 'Player', 0, false, true), reason);
+
+    kick('Admin Kick (Say "hi")');
+    kick('Admin Ban (Cheating)');
+    kick('Script Restriction #12');
+    kick('Global Ban #4f2c8a');
+    kick('Client not responding');
+    kick('Something new');
+    arcon.emit(
+      'playerDisconnected',
+      new Player(guid, 1, '127.0.0.1', 'Away', 0, false, true),
+      'left during disconnect',
+    );
+
+    const output = metrics.collect();
+
+    expect(output).to.include('arcon_belogs_total{server="altis",type="Script",filter="3"} 2');
+    expect(output).to.include('arcon_kicks_total{server="altis",reason="admin"} 2');
+    expect(output).to.include('arcon_kicks_total{server="altis",reason="filter"} 1');
+    expect(output).to.include('arcon_kicks_total{server="altis",reason="ban"} 1');
+    expect(output).to.include('arcon_kicks_total{server="altis",reason="battleye"} 1');
+    expect(output).to.include('arcon_kicks_total{server="altis",reason="other"} 1');
+    expect(output).not.to.include('left during disconnect');
+  });
+
+  it('Records command latency in a cumulative histogram', () => {
+    arcon.emit('latency', 'command', 40);
+    arcon.emit('latency', 'command', 80);
+    arcon.emit('latency', 'heartbeat', 500);
+
+    const output = metrics.collect();
+
+    expect(output).to.include('arcon_command_latency_seconds_bucket{server="altis",le="0.05"} 1');
+    expect(output).to.include('arcon_command_latency_seconds_bucket{server="altis",le="0.1"} 2');
+    expect(output).to.include('arcon_command_latency_seconds_bucket{server="altis",le="+Inf"} 2');
+    expect(output).to.include('arcon_command_latency_seconds_count{server="altis"} 2');
+  });
+});
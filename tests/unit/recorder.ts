@@ -0,0 +1,118 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Arcon } from '../../src/Arcon';
+import { ConnectionState } from '../../src/Arcon/client';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+import { Player } from '../../src/Arcon/player';
+import { TrafficRecorder, readRecording } from '../../src/Arcon/recorder';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+describe('TrafficRecorder', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'secret-password' });
+    await server.start();
+  });
+
+  afterEach(() => server.stop());
+
+  const recordSession = async (recorder: TrafficRecorder) => {
+    const arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'secret-password',
+      autoReconnect: false,
+      recorder,
+    });
+
+    arcon.connect();
+    await once(arcon, 'players');
+
+    server.playerConnect({ id: 3, name: 'Recorded', guid });
+    server.verifyGuid(3);
+    await once(arcon, 'playerConnected');
+
+    arcon.close('Recording finished.', true);
+    await recorder.close();
+  };
+
+  it('Records datagrams without the password', async () => {
+    const recorder = new TrafficRecorder();
+    await recordSession(recorder);
+
+    const directions = new Set(recorder.datagrams.map((datagram) => datagram.direction));
+    const raw = Buffer.concat(recorder.datagrams.map((datagram) => datagram.data));
+
+    expect([...directions]).to.have.members(['in', 'out']);
+    expect(raw.includes('secret-password')).to.equal(false);
+  });
+
+  it('Stops recording once closed', async () => {
+    const recorder = new TrafficRecorder();
+    await recordSession(recorder);
+
+    const recorded = recorder.datagrams.length;
+    recorder.record('in', Buffer.from('BE'));
+
+    expect(recorder.datagrams).to.have.length(recorded);
+  });
+
+  it('Replays a recording from a file without a socket', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'arcon-'));
+    const path = join(dir, 'capture.jsonl');
+
+    try {
+      await recordSession(new TrafficRecorder(path));
+
+      const replayed = new Arcon({ host: '127.0.0.1', port: 1, password: '', autoReconnect: false });
+      const connected: Player[] = [];
+
+      replayed.on('playerConnected', (player) => connected.push(player));
+
+      expect(await replayed.replay(await readRecording(path), { speed: Infinity })).to.equal(true);
+
+      expect(connected.map((player) => player.name)).to.deep.equal(['Recorded']);
+
+      // The client is closed after the replay, but keeps its players
+      expect(replayed.state).to.equal(ConnectionState.CLOSED);
+      expect(replayed.players.get(3)?.guid).to.equal(guid);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it('Rejects commands and does not record again while replaying', async () => {
+    const recorder = new TrafficRecorder();
+    await recordSession(recorder);
+
+    const replayRecorder = new TrafficRecorder();
+    const replayed = new Arcon({
+      host: '127.0.0.1',
+      port: 1,
+      password: '',
+      commandTimeout: 60_000,
+      recorder: replayRecorder,
+    });
+
+    let response: Promise<string> | undefined;
+    replayed.on('playerConnected', () => (response = replayed.sendCommandAsync('players')));
+
+    await replayed.replay(recorder.datagrams, { speed: Infinity });
+
+    try {
+      await response;
+      expect.fail('Expected the command to be rejected');
+    } catch (error) {
+      expect((error as Error).message).to.equal('Commands are not sent while replaying traffic.');
+    }
+
+    expect(replayRecorder.datagrams).to.have.length(0);
+  });
+});
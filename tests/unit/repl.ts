@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { PassThrough } from 'stream';
+import { Arcon } from '../../src/Arcon';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+import { ArconRepl, formatTable } from '../../src/Arcon/repl';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+describe('ArconRepl', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+  let arcon: Arcon;
+  let repl: ArconRepl;
+  let output: string[];
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'password' });
+    await server.start();
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      autoReconnect: false,
+      commandInterval: 10,
+    });
+
+    const stdout = new PassThrough();
+    output = [];
+    stdout.on('data', (chunk: Buffer) => output.push(...chunk.toString().split('\n').filter(Boolean)));
+
+    repl = new ArconRepl(arcon, { input: new PassThrough(), output: stdout, colors: false });
+    repl.start();
+
+    server.playerConnect({ id: 0, name: 'John Doe', guid, verified: true, lobby: false });
+
+    arcon.connect();
+    await once(arcon, 'players');
+  });
+
+  afterEach(async () => {
+    repl.stop();
+    arcon.close('Test finished.', true);
+    await server.stop();
+  });
+
+  it('Formats tables', () => {
+    expect(formatTable(['#', 'Name'], [[1, 'John']])).to.deep.equal(['#  Name', '1  John']);
+  });
+
+  it('Lists players and kicks them by name', async () => {
+    await repl.execute('.players');
+
+    expect(output.some((line) => line.includes('John Doe') && line.includes(guid))).to.equal(true);
+
+    await repl.execute('.kick "john doe" Idle');
+
+    expect(server.players).to.have.length(0);
+    expect(output).to.include('Kicked #0 John Doe');
+  });
+
+  it('Sends commands and prints JSON output', async () => {
+    await repl.execute('.json');
+    await repl.execute('missions');
+
+    const response = JSON.parse(output[output.length - 1]);
+
+    expect(response).to.include({ type: 'response', command: 'missions' });
+
+    server.chat(0, 'Global', 'Hello');
+    await once(arcon, 'playerMessage');
+
+    expect(JSON.parse(output[output.length - 1])).to.deep.equal({
+      type: 'console',
+      messageType: 'playerMessage',
+      message: '(Global) John Doe: Hello',
+    });
+  });
+
+  it('Watches events', async () => {
+    await repl.execute('.watch beLog');
+
+    server.beLog('Script', 0, 3, 'hint "test"');
+    await once(arcon, 'beLog');
+
+    expect(output[output.length - 1]).to.equal('[Script] #0 John Doe (filter #3): hint "test"');
+  });
+});
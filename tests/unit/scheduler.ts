@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import { once } from 'events';
+import { Arcon } from '../../src/Arcon';
+import { MockBeServer } from '../../src/Arcon/mockServer';
+import { Scheduler, nextCronDate, parseCron } from '../../src/Arcon/scheduler';
+
+const guid = '0123456789abcdef0123456789abcdef';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Scheduler', function () {
+  this.timeout(10_000);
+
+  let server: MockBeServer;
+  let arcon: Arcon;
+  let scheduler: Scheduler;
+  let messages: string[];
+
+  beforeEach(async () => {
+    server = new MockBeServer({ password: 'password' });
+    await server.start();
+
+    messages = [];
+    server.onCommand('say', (args) => {
+      messages.push(args.replace(/^-1 /, ''));
+      return '';
+    });
+
+    arcon = new Arcon({
+      host: '127.0.0.1',
+      port: server.port,
+      password: 'password',
+      autoReconnect: false,
+      commandInterval: 10,
+    });
+    arcon.on('error', () => {});
+
+    scheduler = new Scheduler(arcon, { tickInterval: 10 });
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    arcon.close('Test finished.', true);
+    await server.stop();
+  });
+
+  it('Parses cron expressions', () => {
+    const schedule = parseCron('*/15 4,16 1-7 * 0');
+
+    expect([...schedule.minutes]).to.deep.equal([0, 15, 30, 45]);
+    expect([...schedule.hours]).to.deep.equal([4, 16]);
+    expect(schedule.daysOfMonth.size).to.equal(7);
+    expect(() => parseCron('60 * * * *')).to.throw();
+    expect(() => parseCron('* * *')).to.throw();
+  });
+
+  it('Finds the next matching time', () => {
+    const daily = parseCron('0 4 * * *');
+
+    expect(nextCronDate(daily, new Date(2024, 0, 1, 3, 59, 30))).to.deep.equal(new Date(2024, 0, 1, 4, 0));
+    expect(nextCronDate(daily, new Date(2024, 0, 1, 4, 0))).to.deep.equal(new Date(2024, 0, 2, 4, 0));
+
+    // Either the day of month or the day of week may match when both are restricted
+    const monthly = parseCron('30 12 15 * 1');
+    expect(nextCronDate(monthly, new Date(2024, 0, 1, 13, 0))).to.deep.equal(new Date(2024, 0, 8, 12, 30));
+  });
+
+  it('Schedules countdown warnings before restarts', () => {
+    scheduler.scheduleRestart('daily', '0 4 * * *');
+
+    const [job] = scheduler.jobs;
+    const restartAt = nextCronDate(parseCron('0 4 * * *'), new Date());
+
+    expect(job.type).to.equal('restart');
+    expect(job.nextRunAt?.getTime()).to.equal(restartAt.getTime() - 15 * 60_000);
+  });
+
+  it('Skips announcements while the server is empty', async () => {
+    const skipped = once(scheduler, 'skip');
+
+    scheduler.announce('rules', 'Read the rules!', { interval: 50 });
+
+    arcon.connect();
+    await skipped;
+
+    server.playerConnect({ id: 0, name: 'Player', guid, verified: true, lobby: false });
+    await arcon.sendCommandAsync('players');
+    await wait(150);
+
+    expect(messages).to.include('Read the rules!');
+  });
+
+  it('Waits for the player list before skipping announcements', async () => {
+    server.playerConnect({ id: 0, name: 'Player', guid, verified: true, lobby: false });
+
+    let skipped = false;
+    scheduler.on('skip', () => (skipped = true));
+
+    scheduler.announce('rules', 'Read the rules!', { interval: 20 });
+    await wait(30);
+
+    arcon.connect();
+    await once(scheduler, 'run');
+    await wait(100);
+
+    expect(skipped).to.equal(false);
+    expect(messages).to.include('Read the rules!');
+  });
+
+  it('Does not run jobs while disconnected', async () => {
+    scheduler.announceAt('soon', new Date(Date.now() + 20), 'Hello');
+    await wait(100);
+
+    expect(messages).to.have.length(0);
+    expect(scheduler.jobs).to.have.length(1);
+
+    arcon.connect();
+    await once(scheduler, 'run');
+    await wait(50);
+
+    expect(messages).to.deep.equal(['Hello']);
+    expect(scheduler.jobs).to.have.length(0);
+  });
+
+  it('Runs a missed announcement once after reconnecting', async () => {
+    scheduler.announce('rules', 'Read the rules!', { interval: 20, skipWhenEmpty: false });
+    await wait(200);
+
+    const runs: number[] = [];
+    scheduler.on('run', () => runs.push(Date.now()));
+
+    arcon.connect();
+    await once(scheduler, 'run');
+
+    expect(runs).to.have.length(1);
+    expect(scheduler.jobs[0].nextRunAt?.getTime()).to.be.greaterThan(runs[0]);
+  });
+
+  it('Reports jobs failing on disconnect', async () => {
+    arcon.connect();
+    await once(arcon, 'connected');
+
+    // Drop the connection while the message is being sent
+    scheduler.once('run', () => process.nextTick(() => arcon.close('Lost connection.', false)));
+    scheduler.announceAt('interrupted', new Date(), 'Hello');
+
+    const [error, id] = await once(scheduler, 'jobFailed');
+
+    expect(id).to.equal('interrupted');
+    expect(error.message).to.equal('Connection closed before command completed.');
+  });
+
+  it('Skips jobs that are overdue by more than the grace period', async () => {
+    scheduler.stop();
+    scheduler = new Scheduler(arcon, { tickInterval: 10, gracePeriod: 50 });
+    scheduler.announceAt('late', new Date(Date.now() - 1000), 'Too late');
+
+    arcon.connect();
+    await once(arcon, 'connected');
+    await wait(50);
+
+    expect(messages).to.have.length(0);
+    expect(scheduler.jobs).to.have.length(0);
+  });
+});
@@ -0,0 +1,39 @@
+import { expect } from 'chai';
+import { Arcon } from '../../src/Arcon';
+import ArconError from '../../src/Arcon/ArconError';
+import { addBanCommand } from '../../src/Arcon/commands';
+import { Player } from '../../src/Arcon/player';
+import { IdentityRegistry, steamIdToGuid } from '../../src/Arcon/steam';
+
+const steamId = '76561197960265728';
+const guid = '4fc867abf98b934e9e7eeaf15170258c';
+
+describe('Steam identities', () => {
+  it('Derives the BattlEye GUID of a Steam64 ID', () => {
+    expect(steamIdToGuid(steamId)).to.equal(guid);
+    expect(() => steamIdToGuid('12345')).to.throw(ArconError);
+  });
+
+  it('Resolves GUIDs to known identities', () => {
+    const identities = new IdentityRegistry([{ steamId, name: 'John' }]);
+
+    expect(identities.resolve(guid.toUpperCase())).to.deep.equal({ steamId, guid, name: 'John' });
+    expect(identities.remove(steamId)).to.equal(true);
+    expect(identities.resolve(guid)).to.equal(undefined);
+  });
+
+  it('Finds players by Steam64 ID', () => {
+    const arcon = new Arcon({ host: '127.0.0.1', port: 2302, password: 'password' });
+    const player = new Player(guid, 0, '127.0.0.1', 'John', 0, false, true);
+
+    arcon.players.set(player.id, player);
+    arcon.identities.add(steamId, 'John');
+
+    expect(arcon.findPlayerBySteamId(steamId)).to.equal(player);
+    expect(arcon.resolveIdentity(player)?.steamId).to.equal(steamId);
+  });
+
+  it('Bans Steam64 IDs by their GUID', () => {
+    expect(addBanCommand(steamId, 0, 'Cheating')).to.equal(`addBan ${guid} 0 Cheating`);
+  });
+});